@@ -6,6 +6,7 @@
 
 import express from 'express';
 import { IAMClient } from '@adamus/iam-client';
+import { createIAMMiddleware } from '@adamus/iam-client/express';
 
 const app = express();
 app.use(express.json());
@@ -15,61 +16,17 @@ const iamClient = new IAMClient({
   baseUrl: process.env.IAM_BASE_URL || 'http://localhost:8000/api/v1',
   timeout: 10000,
   verifySSL: true,
+  serverMode: true,
 });
 
-// Authentication middleware
-const authenticate = async (req: any, res: any, next: any) => {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({ error: 'No token provided' });
-  }
-
-  const token = authHeader.replace('Bearer ', '');
-
-  try {
-    const userData = await iamClient.verifyToken(token);
-    req.user = userData.user;
-    req.permissions = userData.permissions;
-    req.roles = userData.roles;
-    req.token = token;
-    next();
-  } catch (error) {
-    return res.status(401).json({ error: 'Invalid or expired token' });
-  }
-};
+// Authentication and authorization middleware (sets req.iam)
+const iam = createIAMMiddleware({
+  client: iamClient,
+  tokenSources: ['header', { cookie: 'iam_token' }],
+});
 
-// Permission middleware
-const requirePermission = (permission: string) => {
-  return async (req: any, res: any, next: any) => {
-    const hasPermission = await iamClient.hasPermission(permission, req.token);
-    
-    if (!hasPermission) {
-      return res.status(403).json({ 
-        error: 'Insufficient permissions',
-        required: permission 
-      });
-    }
-    
-    next();
-  };
-};
-
-// Role middleware
-const requireRole = (role: string) => {
-  return async (req: any, res: any, next: any) => {
-    const hasRole = await iamClient.hasRole(role, req.token);
-    
-    if (!hasRole) {
-      return res.status(403).json({ 
-        error: 'Insufficient role',
-        required: role 
-      });
-    }
-    
-    next();
-  };
-};
+const authenticate = iam.authenticate();
+const { requirePermission, requireRole } = iam;
 
 // Public routes
 app.post('/api/auth/login', async (req, res) => {
@@ -91,20 +48,17 @@ app.post('/api/auth/login', async (req, res) => {
 });
 
 // Protected routes
-app.get('/api/auth/me', authenticate, async (req: any, res) => {
+app.get('/api/auth/me', authenticate, async (req, res) => {
+  const { user, permissions, roles } = req.iam!;
   res.json({
     success: true,
-    data: {
-      user: req.user,
-      permissions: req.permissions,
-      roles: req.roles,
-    },
+    data: { user, permissions, roles },
   });
 });
 
-app.post('/api/auth/logout', authenticate, async (req: any, res) => {
+app.post('/api/auth/logout', authenticate, async (req, res) => {
   try {
-    await iamClient.logout(req.token);
+    await iamClient.logout(req.iam!.token);
     res.json({ success: true, message: 'Logged out successfully' });
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message });
@@ -114,7 +68,7 @@ app.post('/api/auth/logout', authenticate, async (req: any, res) => {
 // User management routes
 app.get('/api/users', authenticate, async (req: any, res) => {
   try {
-    const users = await iamClient.getUsers({
+    const users = await iamClient.withToken(req.iam.token).getUsers({
       page: parseInt(req.query.page) || 1,
       per_page: parseInt(req.query.per_page) || 15,
       search: req.query.search,
@@ -128,7 +82,7 @@ app.get('/api/users', authenticate, async (req: any, res) => {
 
 app.get('/api/users/:id', authenticate, async (req: any, res) => {
   try {
-    const user = await iamClient.getUser(req.params.id);
+    const user = await iamClient.withToken(req.iam.token).getUser(req.params.id);
     res.json({ success: true, data: user });
   } catch (error: any) {
     res.status(404).json({ success: false, error: 'User not found' });
@@ -137,7 +91,7 @@ app.get('/api/users/:id', authenticate, async (req: any, res) => {
 
 app.post('/api/users', authenticate, requirePermission('users.create'), async (req: any, res) => {
   try {
-    const newUser = await iamClient.createUser(req.body);
+    const newUser = await iamClient.withToken(req.iam.token).createUser(req.body);
     res.status(201).json({ success: true, data: newUser });
   } catch (error: any) {
     res.status(400).json({ success: false, error: error.message });
@@ -146,7 +100,7 @@ app.post('/api/users', authenticate, requirePermission('users.create'), async (r
 
 app.put('/api/users/:id', authenticate, requirePermission('users.edit'), async (req: any, res) => {
   try {
-    const updatedUser = await iamClient.updateUser(req.params.id, req.body);
+    const updatedUser = await iamClient.withToken(req.iam.token).updateUser(req.params.id, req.body);
     res.json({ success: true, data: updatedUser });
   } catch (error: any) {
     res.status(400).json({ success: false, error: error.message });
@@ -155,7 +109,7 @@ app.put('/api/users/:id', authenticate, requirePermission('users.edit'), async (
 
 app.delete('/api/users/:id', authenticate, requirePermission('users.delete'), async (req: any, res) => {
   try {
-    await iamClient.deleteUser(req.params.id);
+    await iamClient.withToken(req.iam.token).deleteUser(req.params.id);
     res.json({ success: true, message: 'User deleted successfully' });
   } catch (error: any) {
     res.status(400).json({ success: false, error: error.message });
@@ -165,7 +119,7 @@ app.delete('/api/users/:id', authenticate, requirePermission('users.delete'), as
 // Department routes
 app.get('/api/departments', authenticate, async (req: any, res) => {
   try {
-    const departments = await iamClient.getDepartments({
+    const departments = await iamClient.withToken(req.iam.token).getDepartments({
       page: parseInt(req.query.page) || 1,
       per_page: parseInt(req.query.per_page) || 20,
     });
@@ -178,7 +132,7 @@ app.get('/api/departments', authenticate, async (req: any, res) => {
 
 app.post('/api/departments', authenticate, requireRole('admin'), async (req: any, res) => {
   try {
-    const newDepartment = await iamClient.createDepartment(req.body);
+    const newDepartment = await iamClient.withToken(req.iam.token).createDepartment(req.body);
     res.status(201).json({ success: true, data: newDepartment });
   } catch (error: any) {
     res.status(400).json({ success: false, error: error.message });
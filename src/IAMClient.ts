@@ -1,4 +1,4 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
 import {
   IAMConfig,
   LoginCredentials,
@@ -9,30 +9,201 @@ import {
   User,
   UserPhoneNumber,
   Department,
+  DepartmentNode,
   Position,
+  OrgChartNode,
   PaginatedResponse,
-  QueryParams,
+  UserQuery,
+  DepartmentQuery,
+  PositionQuery,
+  Role,
+  RoleQuery,
+  Permission,
+  PermissionQuery,
   TokenVerificationResponse,
   PermissionCheckResponse,
   RoleCheckResponse,
   RefreshTokenResponse,
   PhoneVerificationResponse,
+  PasswordResetRequest,
+  PasswordResetRequestResponse,
+  PasswordResetOtpResponse,
+  ResetPasswordRequest,
+  PasswordResetResponse,
+  TokenStore,
 } from './types';
+import { IAMError, IAMAuthenticationError, IAMNotFoundError, IAMSchemaError, toIAMError } from './errors';
+import { CacheStore, LRUCacheStore, hashCacheKey } from './cache';
+import { parseCookies, parseSetCookie, readBrowserCookie, serializeCookies } from './cookies';
+import { decodeJwt, getJwtExpiry } from './jwt';
+import { JsonWebKeySet, JwtVerifier } from './jwks';
+import { collectRoleNames, hasPermissionIn, hasRoleIn } from './permissions';
+import { PaginateOptions, Paginator, paginate } from './pagination';
+import { buildQueryParams } from './query';
+import { toPaginatedResponse, unwrapCollection, unwrapResource } from './envelope';
+import { Schema, listSchema, pageSchema, schemas, validateSchema } from './schema';
+import { HierarchyAccessors, TreeNode, buildTree, findAncestors, findDescendants } from './hierarchy';
+import { GHANA_PHONE_RULES, ParsedPhoneNumber, getPhoneNumberError, normalizePhoneNumber, parsePhoneNumber } from './phone';
+
+// Largest delay setTimeout accepts (~24.8 days)
+const MAX_TIMER_DELAY = 2147483647;
+
+// Least time between two proactive refreshes, for tokens that are already due when issued
+const MIN_REFRESH_INTERVAL = 5000;
+
+const departmentHierarchy: HierarchyAccessors<Department> = {
+  label: 'Department',
+  id: (department) => department.id,
+  parent: (department) => department.parent_department_id,
+};
+
+const positionHierarchy: HierarchyAccessors<Position> = {
+  label: 'Position',
+  id: (position) => position.id,
+  parent: (position) => position.reports_to_position_id,
+};
+
+const sameId = (a: string | number | null | undefined, b: string | number | null | undefined): boolean =>
+  a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b);
+
+/**
+ * Run `fn` over every item with at most `concurrency` calls in flight, keeping the input order
+ */
+const mapConcurrently = async <T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker));
+  return results;
+};
+
+/**
+ * Drop repeated users, keeping the first occurrence
+ */
+const uniqueUsers = (users: User[]): User[] => {
+  const unique = new Map<string, User>();
+  for (const user of users) {
+    if (!unique.has(String(user.id))) {
+      unique.set(String(user.id), user);
+    }
+  }
+  return Array.from(unique.values());
+};
+
+/**
+ * Internal request flags used by the auth interceptors
+ */
+type IAMRequestConfig = InternalAxiosRequestConfig & {
+  /** The interceptor attached the client's own token to this request */
+  _iamToken?: boolean;
+  /** The request has already been replayed after a token refresh */
+  _retried?: boolean;
+  /** Never hold or refresh for this request (the refresh call itself) */
+  _skipAuthRefresh?: boolean;
+  /** Authenticated by session cookies: never attach the client's token */
+  _sessionAuth?: boolean;
+  /** Sent by a withToken()/withSession() view: only the view's own credentials apply */
+  _scoped?: boolean;
+};
+
+const MUTATING_METHODS = ['post', 'put', 'patch', 'delete'];
+
+/**
+ * Default claims mapping for local JWT verification: requires `user`, `permissions` and `roles` claims
+ */
+const identityFromClaims = (claims: Record<string, any>): TokenVerificationResponse | null => {
+  const { user, permissions, roles } = claims;
+  if (!user || typeof user !== 'object' || !Array.isArray(permissions) || !Array.isArray(roles)) {
+    return null;
+  }
+  return { user, permissions, roles };
+};
+
+/**
+ * Wrap an axios instance for a scoped view: every call carries the given headers unless the call
+ * sets its own, and is flagged so the interceptor never falls back to the root client's token
+ */
+const bindHeaders = (
+  http: AxiosInstance,
+  getHeaders: () => Record<string, string>,
+  flags: Pick<IAMRequestConfig, '_sessionAuth'> = {}
+): AxiosInstance => {
+  const withHeaders = (config?: AxiosRequestConfig): AxiosRequestConfig => ({
+    ...flags,
+    ...config,
+    headers: { ...getHeaders(), ...(config?.headers as Record<string, any>) },
+    _scoped: true,
+  } as AxiosRequestConfig);
+
+  return new Proxy(http, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      switch (property) {
+        case 'request':
+          return (config: AxiosRequestConfig) => value(withHeaders(config));
+        case 'get':
+        case 'delete':
+        case 'head':
+        case 'options':
+          return (url: string, config?: AxiosRequestConfig) => value(url, withHeaders(config));
+        case 'post':
+        case 'put':
+        case 'patch':
+          return (url: string, data?: any, config?: AxiosRequestConfig) => value(url, data, withHeaders(config));
+        default:
+          return value;
+      }
+    },
+  });
+};
 
 export class IAMClient {
   private client: AxiosInstance;
   private config: IAMConfig;
   private token: string | null = null;
-  private tokenCache: Map<string, { data: any; timestamp: number }> = new Map();
-  private cacheDuration: number = 60000; // 1 minute cache like Laravel
+  private tokenCache: CacheStore<TokenVerificationResponse>;
+  private jwtVerifier: JwtVerifier | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  private tokenExpiresAt: number | null = null;
+  /** Lifetime of the current token from when it was set, in milliseconds */
+  private tokenLifetime: number | null = null;
+  private lastProactiveRefresh: number = 0;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshPaused: boolean = false;
+  private tokenRestore: Promise<string | null> | null = null;
+  private persistQueue: Promise<void> = Promise.resolve();
+  /** The client this request-scoped view was created from (see withToken) */
+  private parent: IAMClient | null = null;
+  /** Cookies forwarded by a session-scoped view (see withSession) */
+  private sessionCookies: Record<string, string> | null = null;
+  private csrfRequest: Promise<unknown> | null = null;
 
   constructor(config: IAMConfig) {
     this.config = {
       timeout: 10000,
       verifySSL: true,
+      tokenRefreshLeadTime: 60000,
+      cacheTtl: 60000, // 1 minute cache like Laravel
       ...config,
     };
 
+    this.tokenCache = this.config.cacheStore ?? new LRUCacheStore({ maxEntries: this.config.cacheMaxEntries });
+
+    if (this.config.jwtVerification) {
+      const jwksUri = this.config.jwtVerification.jwksUri ?? '/.well-known/jwks.json';
+      this.jwtVerifier = new JwtVerifier(async () => {
+        const requestConfig = { _skipAuthRefresh: true } as AxiosRequestConfig;
+        const response = await this.client.get<JsonWebKeySet>(jwksUri, requestConfig);
+        return response.data;
+      }, this.config.jwtVerification);
+    }
+
+    const { xsrfCookieName = 'XSRF-TOKEN', xsrfHeaderName = 'X-XSRF-TOKEN' } = this.config.session ?? {};
     this.client = axios.create({
       baseURL: this.config.baseUrl.replace(/\/$/, ''),
       timeout: this.config.timeout,
@@ -40,12 +211,53 @@ export class IAMClient {
         'Accept': 'application/json',
         'Content-Type': 'application/json',
       },
+      // Cross-origin cookie auth: send cookies and the CSRF header read from the XSRF cookie
+      withCredentials: this.config.withCredentials,
+      withXSRFToken: this.config.withCredentials || undefined,
+      xsrfCookieName,
+      xsrfHeaderName,
     });
 
+    // Load a previously persisted token before the first request goes out
+    if (this.config.tokenStore) {
+      this.tokenRestore = this.restoreToken();
+    }
+
     // Add request interceptor to attach token
-    this.client.interceptors.request.use((config) => {
+    this.client.interceptors.request.use(async (config: IAMRequestConfig) => {
+      // Browsers need the CSRF cookie before the first state-changing cookie-authenticated request
+      if (
+        this.config.withCredentials &&
+        typeof document !== 'undefined' &&
+        MUTATING_METHODS.includes(config.method ?? '') &&
+        !readBrowserCookie(xsrfCookieName)
+      ) {
+        // A failed handshake surfaces as the request's own CSRF error
+        this.csrfRequest ??= this.csrfCookie()
+          .catch(() => undefined)
+          .finally(() => {
+            this.csrfRequest = null;
+          });
+        await this.csrfRequest;
+      }
+
+      // Calls with explicit credentials (a token, forwarded cookies or a view's own) keep them; only the client's own token is managed here
+      if (config._scoped || config.headers.Authorization || config.headers.Cookie || config._sessionAuth) {
+        return config;
+      }
+
+      if (this.tokenRestore) {
+        await this.tokenRestore;
+      }
+
+      // Hold new requests until an in-flight refresh settles so they use the new token
+      if (this.refreshPromise && !config._skipAuthRefresh) {
+        await this.refreshPromise.catch(() => undefined);
+      }
+
       if (this.token) {
         config.headers.Authorization = `Bearer ${this.token}`;
+        config._iamToken = true;
       }
       return config;
     });
@@ -53,9 +265,34 @@ export class IAMClient {
     // Add response interceptor for error handling
     this.client.interceptors.response.use(
       (response) => response,
-      (error: AxiosError) => {
-        if (error.response?.status === 401 && this.config.onAuthError) {
-          this.config.onAuthError(new Error('Authentication failed'));
+      async (error: AxiosError) => {
+        const request = error.config as IAMRequestConfig | undefined;
+
+        if (
+          error.response?.status === 401 &&
+          this.config.autoRefreshToken &&
+          request?._iamToken &&
+          !request._retried &&
+          !request._skipAuthRefresh
+        ) {
+          request._retried = true;
+          try {
+            // A request sent with an already-replaced token only needs replaying
+            const sentToken = request.headers.Authorization;
+            const token = this.token && sentToken !== `Bearer ${this.token}`
+              ? this.token
+              : await this.refreshAccessToken();
+            request.headers.Authorization = `Bearer ${token}`;
+            return this.client.request(request);
+          } catch (refreshError) {
+            return Promise.reject(refreshError);
+          }
+        }
+
+        // A rejected automatic refresh reports the auth error once, in refreshAccessToken()
+        const isAutoRefresh = request?._skipAuthRefresh && this.refreshPromise !== null;
+        if (error.response?.status === 401 && this.config.onAuthError && !isAutoRefresh) {
+          this.config.onAuthError(new IAMAuthenticationError('Authentication failed', { statusCode: 401, data: error.response.data }));
         }
         return Promise.reject(error);
       }
@@ -64,9 +301,14 @@ export class IAMClient {
 
   /**
    * Set the authentication token
+   * @param token - Access token
+   * @param expiresIn - Token lifetime in seconds (`expires_in`), used for expiry tracking. Defaults to the JWT `exp` claim
    */
-  setToken(token: string): void {
+  setToken(token: string, expiresIn?: number): void {
     this.token = token;
+    this.setTokenExpiry(expiresIn !== undefined ? Date.now() + expiresIn * 1000 : getJwtExpiry(token));
+    this.scheduleTokenRefresh();
+    this.persist((store) => store.set(token));
   }
 
   /**
@@ -80,8 +322,218 @@ export class IAMClient {
    * Clear the authentication token
    */
   clearToken(): void {
+    const token = this.token;
     this.token = null;
-    this.clearTokenCache();
+    this.setTokenExpiry(null);
+    this.cancelTokenRefresh();
+    if (this.parent) {
+      // The cache is shared with other scopes, so only drop this token's entry
+      if (token) void this.forgetCachedToken(token);
+    } else {
+      void this.clearTokenCache();
+    }
+    this.persist((store) => store.clear());
+  }
+
+  /**
+   * Get a request-scoped view of the client that authenticates with its own token.
+   * The view shares the HTTP client, configuration and verification cache, but its
+   * login/refresh/logout calls never touch this client's token.
+   * @example
+   * ```typescript
+   * app.get('/api/users', async (req, res) => {
+   *   const users = await iamClient.withToken(req.token).getUsers();
+   *   res.json(users);
+   * });
+   * ```
+   */
+  withToken(token: string): IAMClient {
+    const scoped = this.createView(token, (): Record<string, string> =>
+      scoped.token ? { Authorization: `Bearer ${scoped.token}` } : {}
+    );
+    return scoped;
+  }
+
+  /**
+   * Get a request-scoped view of the client that authenticates with session cookies instead of a token.
+   * Every call forwards the cookie jar, plus the CSRF header when the jar holds the CSRF cookie.
+   * @param cookies The incoming `Cookie` header or a name/value map
+   * @example
+   * ```typescript
+   * const iam = iamClient.withSession(req.headers.cookie);
+   * const { user } = await iam.verifySession();
+   * ```
+   */
+  withSession(cookies: string | Record<string, string>): IAMClient {
+    const { xsrfCookieName = 'XSRF-TOKEN', xsrfHeaderName = 'X-XSRF-TOKEN' } = this.config.session ?? {};
+    const scoped = this.createView(
+      null,
+      (): Record<string, string> => {
+        const jar = scoped.sessionCookies ?? {};
+        const headers: Record<string, string> = { Cookie: serializeCookies(jar) };
+        if (jar[xsrfCookieName]) {
+          headers[xsrfHeaderName] = jar[xsrfCookieName];
+        }
+        return headers;
+      },
+      // Even an empty jar authenticates by session, never by token
+      { _sessionAuth: true }
+    );
+    scoped.sessionCookies = typeof cookies === 'string' ? parseCookies(cookies) : { ...cookies };
+    return scoped;
+  }
+
+  private createView(
+    token: string | null,
+    getHeaders: () => Record<string, string>,
+    flags?: Pick<IAMRequestConfig, '_sessionAuth'>
+  ): IAMClient {
+    const root = this.parent ?? this;
+    const scoped: IAMClient = Object.create(root);
+    scoped.parent = root;
+    scoped.token = token;
+    scoped.setTokenExpiry(token ? getJwtExpiry(token) : null);
+    scoped.refreshPromise = null;
+    scoped.refreshTimer = null;
+    scoped.refreshPaused = false;
+    scoped.tokenRestore = null;
+    scoped.sessionCookies = null;
+    scoped.client = bindHeaders(root.client, getHeaders, flags);
+    return scoped;
+  }
+
+  /**
+   * Whether login, refresh and logout update this instance's token.
+   * Root clients in server mode stay stateless; scoped views always track their own token.
+   */
+  private get tracksSession(): boolean {
+    return !this.config.serverMode || this.parent !== null;
+  }
+
+  /**
+   * Load the token from the configured token store
+   * @returns The restored token, or null if none was stored
+   */
+  async restoreToken(): Promise<string | null> {
+    if (!this.config.tokenStore || this.parent) {
+      return this.token;
+    }
+
+    try {
+      const stored = await this.config.tokenStore.get();
+      // A token set while the store was being read wins over the stored one
+      if (stored && !this.token) {
+        this.token = stored;
+        this.setTokenExpiry(getJwtExpiry(stored));
+        this.scheduleTokenRefresh();
+      }
+    } catch (error) {
+      console.error('Failed to restore token:', error);
+    } finally {
+      this.tokenRestore = null;
+    }
+    return this.token;
+  }
+
+  /**
+   * Write to the token store in the background, one write at a time so a clear never lands before an earlier set
+   */
+  private persist(operation: (store: TokenStore) => Promise<void>): void {
+    const store = this.config.tokenStore;
+    if (store && !this.parent) {
+      this.persistQueue = this.persistQueue
+        .then(() => operation(store))
+        .catch((error) => {
+          console.error('Failed to persist token:', error);
+        });
+    }
+  }
+
+  private setTokenExpiry(expiresAt: number | null): void {
+    this.tokenExpiresAt = expiresAt;
+    this.tokenLifetime = expiresAt !== null ? expiresAt - Date.now() : null;
+  }
+
+  /**
+   * Get when the current token expires, or null if unknown
+   */
+  getTokenExpiry(): Date | null {
+    return this.tokenExpiresAt !== null ? new Date(this.tokenExpiresAt) : null;
+  }
+
+  /**
+   * Check whether the current token is missing or expired
+   * @param leeway - Treat the token as expired this many milliseconds early
+   */
+  isTokenExpired(leeway: number = 0): boolean {
+    if (!this.token) {
+      return true;
+    }
+    if (this.tokenExpiresAt === null) {
+      return false;
+    }
+    return Date.now() + leeway >= this.tokenExpiresAt;
+  }
+
+  /**
+   * Stop proactive token refresh (e.g. while a browser tab is hidden)
+   */
+  pauseTokenRefresh(): void {
+    this.refreshPaused = true;
+    this.cancelTokenRefresh();
+  }
+
+  /**
+   * Resume proactive token refresh. Refreshes immediately if the token is already due
+   */
+  resumeTokenRefresh(): void {
+    this.refreshPaused = false;
+    this.scheduleTokenRefresh();
+  }
+
+  /**
+   * Schedule a refresh `tokenRefreshLeadTime` ms before the token expires, or halfway through
+   * the lifetime of tokens that live shorter than twice the lead time
+   */
+  private scheduleTokenRefresh(): void {
+    this.cancelTokenRefresh();
+
+    if (!this.config.refreshBeforeExpiry || this.parent || this.refreshPaused || !this.token || this.tokenExpiresAt === null) {
+      return;
+    }
+
+    const leadTime = Math.min(this.config.tokenRefreshLeadTime ?? 0, Math.max(0, this.tokenLifetime ?? 0) / 2);
+    const now = Date.now();
+    // Tokens issued already due wait MIN_REFRESH_INTERVAL instead of refreshing in a tight loop.
+    // setTimeout overflows past ~24.8 days, so cap the delay and reschedule from there
+    const delay = Math.min(
+      Math.max(0, this.tokenExpiresAt - leadTime - now, this.lastProactiveRefresh + MIN_REFRESH_INTERVAL - now),
+      MAX_TIMER_DELAY
+    );
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      if (this.isTokenExpired(leadTime)) {
+        this.lastProactiveRefresh = Date.now();
+        // Failures are reported through onAuthError by refreshAccessToken()
+        this.refreshAccessToken().catch(() => undefined);
+      } else {
+        this.scheduleTokenRefresh();
+      }
+    }, delay);
+
+    // Don't keep a Node.js process alive just to refresh a token
+    const timer = this.refreshTimer;
+    if (typeof timer === 'object' && 'unref' in timer) {
+      timer.unref();
+    }
+  }
+
+  private cancelTokenRefresh(): void {
+    if (this.refreshTimer !== null) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
   }
 
   // ==================== Authentication ====================
@@ -91,13 +543,16 @@ export class IAMClient {
    */
   async login(credentials: LoginCredentials): Promise<LoginResponse> {
     try {
-      const response = await this.client.post<LoginResponse>('/auth/login', credentials);
-      this.setToken(response.data.access_token);
+      const response = await this.client.post('/auth/login', credentials);
+      const data = this.validate(schemas.loginResponse, unwrapResource<LoginResponse>(response.data), 'login');
+      if (this.tracksSession) {
+        this.setToken(data.access_token, data.expires_in);
+      }
       
       // Extract permissions from roles like Laravel does
       const enrichedResponse = {
-        ...response.data,
-        permissions: this.extractPermissionsFromLoginResponse(response.data),
+        ...data,
+        permissions: this.extractPermissionsFromLoginResponse(data),
       };
       
       return enrichedResponse;
@@ -133,37 +588,114 @@ export class IAMClient {
   async verifyToken(token?: string): Promise<TokenVerificationResponse> {
     const tokenToVerify = token || this.token;
     if (!tokenToVerify) {
-      throw new Error('No token provided');
+      throw new IAMAuthenticationError('No token provided');
     }
 
     // Check cache first (1 minute cache like Laravel)
-    const cacheKey = `token_${tokenToVerify}`;
-    const cached = this.tokenCache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < this.cacheDuration) {
-      return cached.data;
+    const cacheKey = await this.cacheKeyFor(tokenToVerify);
+    const cached = cacheKey ? await this.readCache(cacheKey) : undefined;
+    if (cached) {
+      return cached;
     }
 
     try {
-      const headers = { Authorization: `Bearer ${tokenToVerify}` };
-      const response = await this.client.get<TokenVerificationResponse>('/auth/me', { headers });
+      const verified = await this.verifyTokenLocally(tokenToVerify);
+      if (verified) {
+        if (cacheKey) {
+          await this.writeCache(cacheKey, verified, tokenToVerify);
+        }
+        return verified;
+      }
+
+      const response = await this.client.get('/auth/me', { headers: this.authHeaders(token) });
       
       // Extract permissions from roles like Laravel does
-      const enrichedData = this.enrichPermissionsFromRoles(response.data);
+      const data = this.validate(schemas.tokenVerification, unwrapResource<TokenVerificationResponse>(response.data), 'verifyToken');
+      const enrichedData = this.enrichPermissionsFromRoles(data);
       
-      // Cache the result
-      this.tokenCache.set(cacheKey, {
-        data: enrichedData,
-        timestamp: Date.now(),
-      });
+      // Cache the result, never beyond the token's own expiry
+      if (cacheKey) {
+        await this.writeCache(cacheKey, enrichedData, tokenToVerify);
+      }
       
       return enrichedData;
     } catch (error) {
       // Clear cache on error
-      this.tokenCache.delete(cacheKey);
+      if (cacheKey) {
+        await this.deleteCache(cacheKey);
+      }
       throw this.handleError(error, 'Token verification failed');
     }
   }
 
+  /**
+   * Headers for a call made with someone else's token. The client's own token is left to the
+   * request interceptor, so `autoRefreshToken` covers those calls
+   */
+  private authHeaders(token?: string): Record<string, string> {
+    return token && token !== this.token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  /**
+   * Verify a JWT against the IAM signing keys when local verification is enabled
+   * @returns The identity from the token claims, or null when /auth/me must be asked instead
+   */
+  private async verifyTokenLocally(token: string): Promise<TokenVerificationResponse | null> {
+    // Opaque (e.g. Sanctum) tokens can only be verified by the IAM service
+    if (!this.jwtVerifier || !decodeJwt(token)) {
+      return null;
+    }
+
+    const claims = await this.jwtVerifier.verify(token);
+    const mapClaims = this.config.jwtVerification?.mapClaims ?? identityFromClaims;
+    const identity = mapClaims(claims);
+    return identity ? this.enrichPermissionsFromRoles(identity) : null;
+  }
+
+  /**
+   * Cache key for a credential, or null when results are not cached (`cacheTtl: 0` or no Web Crypto API)
+   */
+  private async cacheKeyFor(credential: string): Promise<string | null> {
+    return (this.config.cacheTtl ?? 0) > 0 ? hashCacheKey(credential) : null;
+  }
+
+  /**
+   * Cache failures (e.g. Redis down) degrade to a cache miss instead of failing verification
+   */
+  private async readCache(key: string): Promise<TokenVerificationResponse | undefined> {
+    try {
+      return await this.tokenCache.get(key);
+    } catch (error) {
+      console.error('Token cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  private async writeCache(key: string, data: TokenVerificationResponse, token: string): Promise<void> {
+    let ttl = this.config.cacheTtl ?? 0;
+    const expiresAt = getJwtExpiry(token);
+    if (expiresAt !== null) {
+      ttl = Math.min(ttl, expiresAt - Date.now());
+    }
+    if (ttl <= 0) {
+      return;
+    }
+
+    try {
+      await this.tokenCache.set(key, data, ttl);
+    } catch (error) {
+      console.error('Token cache write failed:', error);
+    }
+  }
+
+  private async deleteCache(key: string): Promise<void> {
+    try {
+      await this.tokenCache.delete(key);
+    } catch (error) {
+      console.error('Token cache delete failed:', error);
+    }
+  }
+
   /**
    * Extract permissions from roles (like Laravel does)
    */
@@ -188,35 +720,106 @@ export class IAMClient {
     };
   }
 
+  /**
+   * Remove a single token's cached verification
+   */
+  private async forgetCachedToken(token: string): Promise<void> {
+    const key = await hashCacheKey(token);
+    if (key) {
+      await this.deleteCache(key);
+    }
+  }
+
   /**
    * Clear token cache
    */
-  clearTokenCache(): void {
-    this.tokenCache.clear();
+  async clearTokenCache(): Promise<void> {
+    try {
+      await this.tokenCache.clear?.();
+    } catch (error) {
+      console.error('Token cache clear failed:', error);
+    }
+  }
+
+  /**
+   * Get the name of the session cookie verifySession() reads (`session.cookieName`, default 'laravel_session')
+   */
+  getSessionCookieName(): string {
+    return this.config.session?.cookieName ?? 'laravel_session';
   }
 
   /**
-   * Verify session with IAM using session cookie
+   * Verify a session with IAM. Results are cached for `cacheTtl` like verifyToken()
+   * @param session The decoded session cookie value, or a decoded cookie jar to forward. Defaults to the
+   * withSession() cookies; in the browser, cookies are sent by the browser (see `withCredentials`)
    */
-  async verifySession(sessionCookie: string): Promise<TokenVerificationResponse> {
+  async verifySession(session?: string | Record<string, string>): Promise<TokenVerificationResponse> {
+    const { endpoint = '/auth/me' } = this.config.session ?? {};
+    const cookieName = this.getSessionCookieName();
+    const cookies = typeof session === 'string' ? { [cookieName]: session } : session ?? this.sessionCookies;
+    const sessionId = cookies?.[cookieName];
+
+    // Sessions share the verifyToken() cache under their own key space
+    const cacheKey = sessionId ? await this.cacheKeyFor(`session:${sessionId}`) : null;
+    const cached = cacheKey ? await this.readCache(cacheKey) : undefined;
+    if (cached) {
+      return cached;
+    }
+
     try {
-      // Remove /api/v1 from base URL and use full path
-      const iamBaseUrl = this.config.baseUrl.replace('/api/v1', '');
-      const response = await axios.get<TokenVerificationResponse>(`${iamBaseUrl}/api/v1/auth/me`, {
-        headers: {
-          'Cookie': `laravel_session=${sessionCookie}`,
-          'Accept': 'application/json',
-        },
-        timeout: this.config.timeout,
-      });
+      const headers = cookies ? { Cookie: serializeCookies(cookies) } : {};
+      const requestConfig = { headers, _sessionAuth: true, _skipAuthRefresh: true } as AxiosRequestConfig;
+      const response = await this.client.get(endpoint, requestConfig);
 
       // Extract permissions from roles like Laravel does
-      return this.enrichPermissionsFromRoles(response.data);
+      const data = this.validate(schemas.tokenVerification, unwrapResource<TokenVerificationResponse>(response.data), 'verifySession');
+      const enrichedData = this.enrichPermissionsFromRoles(data);
+      if (cacheKey) {
+        await this.writeCache(cacheKey, enrichedData, sessionId!);
+      }
+      return enrichedData;
     } catch (error) {
+      if (cacheKey) {
+        await this.deleteCache(cacheKey);
+      }
       throw this.handleError(error, 'Session verification failed');
     }
   }
 
+  /**
+   * Run the CSRF cookie handshake. In the browser the cookie is stored by the browser; on a
+   * server, pass the incoming cookies and forward the returned jar (e.g. with withSession())
+   * @returns The given cookies merged with the cookies set by IAM
+   */
+  async csrfCookie(cookies: Record<string, string> = {}): Promise<Record<string, string>> {
+    const { csrfEndpoint = '/sanctum/csrf-cookie' } = this.config.session ?? {};
+    try {
+      const headers = Object.keys(cookies).length ? { Cookie: serializeCookies(cookies) } : {};
+      // Absolute paths live at the IAM host root, not under the API prefix
+      const requestConfig = {
+        headers,
+        baseURL: '',
+        _sessionAuth: true,
+        _skipAuthRefresh: true,
+      } as AxiosRequestConfig;
+      const response = await this.client.get(this.resolveHostUrl(csrfEndpoint), requestConfig);
+      return { ...cookies, ...parseSetCookie(response.headers['set-cookie']) };
+    } catch (error) {
+      throw this.handleError(error, 'CSRF cookie request failed');
+    }
+  }
+
+  /**
+   * Resolve a path against the baseUrl origin (relative baseUrls resolve against the page)
+   */
+  private resolveHostUrl(path: string): string {
+    try {
+      return new URL(path, this.config.baseUrl).toString();
+    } catch {
+      return path;
+    }
+  }
+
   /**
    * Get current authenticated user
    */
@@ -226,16 +829,22 @@ export class IAMClient {
 
   /**
    * Check if user has specific permission
+   * In `permissionCheckMode: 'local'` the check uses the cached verifyToken() result and supports wildcards (`users.*`, `*`)
    */
   async hasPermission(permission: string, token?: string): Promise<boolean> {
+    if (this.config.permissionCheckMode === 'local') {
+      const identity = await this.resolveIdentity(token, 'Permission check failed');
+      return identity ? hasPermissionIn(identity.permissions, permission) : false;
+    }
+
     try {
-      const headers = token ? { Authorization: `Bearer ${token}` } : {};
-      const response = await this.client.post<PermissionCheckResponse>(
+      const headers = this.authHeaders(token);
+      const response = await this.client.post(
         '/auth/check-permission',
         { permission },
         { headers }
       );
-      return response.data.has_permission;
+      return unwrapResource<PermissionCheckResponse>(response.data).has_permission;
     } catch (error) {
       console.error('Permission check failed:', error);
       return false;
@@ -244,43 +853,157 @@ export class IAMClient {
 
   /**
    * Check if user has specific role
+   * In `permissionCheckMode: 'local'` the check uses the cached verifyToken() result
    */
   async hasRole(role: string, token?: string): Promise<boolean> {
+    if (this.config.permissionCheckMode === 'local') {
+      const identity = await this.resolveIdentity(token, 'Role check failed');
+      return identity ? hasRoleIn(collectRoleNames(identity), role) : false;
+    }
+
     try {
-      const headers = token ? { Authorization: `Bearer ${token}` } : {};
-      const response = await this.client.post<RoleCheckResponse>(
+      const headers = this.authHeaders(token);
+      const response = await this.client.post(
         '/auth/check-role',
         { role },
         { headers }
       );
-      return response.data.has_role;
+      return unwrapResource<RoleCheckResponse>(response.data).has_role;
     } catch (error) {
       console.error('Role check failed:', error);
       return false;
     }
   }
 
+  /**
+   * Check several permissions at once, answering each like hasPermission() would.
+   * In `permissionCheckMode: 'local'` a single (cached) verifyToken() call answers them all
+   * @returns A map of permission name to result
+   * @example
+   * ```typescript
+   * const can = await iamClient.checkPermissions(['users.create', 'users.delete']);
+   * if (can['users.delete']) { ... }
+   * ```
+   */
+  async checkPermissions(permissions: string[], token?: string): Promise<Record<string, boolean>> {
+    let answers: boolean[];
+    if (this.config.permissionCheckMode === 'local') {
+      const granted = (await this.resolveIdentity(token, 'Permission check failed'))?.permissions || [];
+      answers = permissions.map((permission) => hasPermissionIn(granted, permission));
+    } else {
+      // The IAM answers each one, so server-side rules (e.g. a super-admin bypass) apply as in hasPermission()
+      answers = await Promise.all(permissions.map((permission) => this.hasPermission(permission, token)));
+    }
+
+    const results: Record<string, boolean> = {};
+    permissions.forEach((permission, index) => {
+      results[permission] = answers[index];
+    });
+    return results;
+  }
+
+  /**
+   * Check if user has at least one of the permissions
+   */
+  async hasAnyPermission(permissions: string[], token?: string): Promise<boolean> {
+    const results = await this.checkPermissions(permissions, token);
+    return permissions.some((permission) => results[permission]);
+  }
+
+  /**
+   * Check if user has every one of the permissions
+   */
+  async hasAllPermissions(permissions: string[], token?: string): Promise<boolean> {
+    const results = await this.checkPermissions(permissions, token);
+    return permissions.every((permission) => results[permission]);
+  }
+
+  /**
+   * Check if user has at least one of the roles
+   */
+  async hasAnyRole(roles: string[], token?: string): Promise<boolean> {
+    return (await this.checkRoles(roles, token)).some(Boolean);
+  }
+
+  /**
+   * Check if user has every one of the roles
+   */
+  async hasAllRoles(roles: string[], token?: string): Promise<boolean> {
+    return (await this.checkRoles(roles, token)).every(Boolean);
+  }
+
+  /**
+   * Answer each role like hasRole() would, from one verifyToken() call in local mode
+   */
+  private async checkRoles(roles: string[], token?: string): Promise<boolean[]> {
+    if (this.config.permissionCheckMode === 'local') {
+      const identity = await this.resolveIdentity(token, 'Role check failed');
+      const userRoles = collectRoleNames(identity);
+      return roles.map((role) => hasRoleIn(userRoles, role));
+    }
+    return Promise.all(roles.map((role) => this.hasRole(role, token)));
+  }
+
+  /**
+   * Verify the token for an authorization check, treating failures as "no access"
+   */
+  private async resolveIdentity(token: string | undefined, failureMessage: string): Promise<TokenVerificationResponse | null> {
+    try {
+      return await this.verifyToken(token);
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Refresh access token
    */
   async refreshToken(token?: string): Promise<RefreshTokenResponse> {
     try {
       const headers = token ? { Authorization: `Bearer ${token}` } : {};
-      const response = await this.client.post<RefreshTokenResponse>('/auth/refresh', {}, { headers });
+      const requestConfig = { headers, _skipAuthRefresh: true } as AxiosRequestConfig;
+      const response = await this.client.post('/auth/refresh', {}, requestConfig);
+      const data = this.validate(schemas.refreshToken, unwrapResource<RefreshTokenResponse>(response.data), 'refreshToken');
       
-      if (response.data.access_token) {
-        this.setToken(response.data.access_token);
-        if (this.config.onTokenRefresh) {
-          this.config.onTokenRefresh(response.data.access_token);
+      if (data.access_token && this.tracksSession) {
+        this.setToken(data.access_token, data.expires_in);
+        if (this.config.onTokenRefresh && !this.parent) {
+          this.config.onTokenRefresh(data.access_token);
         }
       }
       
-      return response.data;
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Token refresh failed');
     }
   }
 
+  /**
+   * Refresh the client's own token, sharing one in-flight refresh between all callers
+   */
+  private refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.refreshToken()
+        .then((response) => {
+          if (!response.access_token) {
+            throw new IAMAuthenticationError('Token refresh failed: no access token returned');
+          }
+          return response.access_token;
+        })
+        .catch((error) => {
+          if (this.config.onAuthError) {
+            this.config.onAuthError(toIAMError(error, 'Token refresh failed'));
+          }
+          throw error;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
   /**
    * Logout from current session
    */
@@ -288,10 +1011,10 @@ export class IAMClient {
     try {
       const headers = token ? { Authorization: `Bearer ${token}` } : {};
       await this.client.post('/auth/logout', {}, { headers });
-      this.clearToken();
+      this.endSession(token);
     } catch (error) {
       console.error('Logout failed:', error);
-      this.clearToken();
+      this.endSession(token);
     }
   }
 
@@ -302,19 +1025,31 @@ export class IAMClient {
     try {
       const headers = token ? { Authorization: `Bearer ${token}` } : {};
       await this.client.post('/auth/logout-all', {}, { headers });
-      this.clearToken();
+      this.endSession(token);
     } catch (error) {
       throw this.handleError(error, 'Logout all failed');
     }
   }
 
+  /**
+   * Forget a logged-out token: the client's own token is cleared, any other token only leaves the cache
+   */
+  private endSession(token?: string): void {
+    if (this.tracksSession && (!token || token === this.token)) {
+      this.clearToken();
+    } else if (token) {
+      void this.forgetCachedToken(token);
+    }
+  }
+
   // ==================== Phone/OTP Authentication ====================
 
   /**
    * Send OTP to phone number
-   * @param request - Send OTP request with phone number (10 digits, starting with 0, e.g., "0248048753")
+   * @param request - Send OTP request with phone number, local or international (e.g., "0248048753", "+233 24 804 8753")
    * @returns Promise with OTP response containing expiration time
-   * @throws Error if OTP sending fails
+   * @throws IAMValidationError if the phone number is invalid
+   * @throws IAMRateLimitError if too many OTPs were requested
    * @example
    * ```typescript
    * const response = await iamClient.sendOtp({
@@ -326,8 +1061,8 @@ export class IAMClient {
    */
   async sendOtp(request: SendOtpRequest): Promise<SendOtpResponse> {
     try {
-      const response = await this.client.post<SendOtpResponse>('/auth/send-otp', request);
-      return response.data;
+      const response = await this.client.post('/auth/send-otp', { ...request, phone: this.normalizePhoneNumber(request.phone) });
+      return this.validate(schemas.sendOtp, unwrapResource<SendOtpResponse>(response.data), 'sendOtp');
     } catch (error) {
       // Extract detailed error message for better user feedback
       throw this.handleError(error, 'Failed to send OTP', true);
@@ -336,9 +1071,9 @@ export class IAMClient {
 
   /**
    * Login with phone and OTP
-   * @param credentials - Phone login credentials with 10-digit phone number and 4-digit OTP
+   * @param credentials - Phone login credentials with phone number and 4-digit OTP
    * @returns Promise with login response containing access token and user data
-   * @throws Error if login fails
+   * @throws IAMValidationError if the OTP is invalid or expired
    * @example
    * ```typescript
    * const response = await iamClient.loginWithPhone({
@@ -351,13 +1086,19 @@ export class IAMClient {
    */
   async loginWithPhone(credentials: PhoneLoginCredentials): Promise<LoginResponse> {
     try {
-      const response = await this.client.post<LoginResponse>('/auth/login-with-phone', credentials);
-      this.setToken(response.data.access_token);
+      const response = await this.client.post('/auth/login-with-phone', {
+        ...credentials,
+        phone: this.normalizePhoneNumber(credentials.phone),
+      });
+      const data = this.validate(schemas.loginResponse, unwrapResource<LoginResponse>(response.data), 'loginWithPhone');
+      if (this.tracksSession) {
+        this.setToken(data.access_token, data.expires_in);
+      }
 
       // Extract permissions from roles like Laravel does
       const enrichedResponse = {
-        ...response.data,
-        permissions: this.extractPermissionsFromLoginResponse(response.data),
+        ...data,
+        permissions: this.extractPermissionsFromLoginResponse(data),
       };
 
       return enrichedResponse;
@@ -369,14 +1110,14 @@ export class IAMClient {
 
   /**
    * Send phone verification OTP
-   * @param phone - 10-digit phone number starting with 0 (e.g., "0248048753")
+   * @param phone - Phone number, local or international (e.g., "0248048753", "+233 24 804 8753")
    * @returns Promise with OTP response
    * @throws Error if verification OTP sending fails
    */
   async verifyPhone(phone: string): Promise<SendOtpResponse> {
     try {
-      const response = await this.client.post<SendOtpResponse>('/auth/verify-phone', { phone });
-      return response.data;
+      const response = await this.client.post('/auth/verify-phone', { phone: this.normalizePhoneNumber(phone) });
+      return this.validate(schemas.sendOtp, unwrapResource<SendOtpResponse>(response.data), 'verifyPhone');
     } catch (error) {
       // Extract detailed error message for better user feedback
       throw this.handleError(error, 'Failed to send phone verification OTP', true);
@@ -385,72 +1126,186 @@ export class IAMClient {
 
   /**
    * Confirm phone verification with OTP
-   * @param phone - 10-digit phone number starting with 0 (e.g., "0248048753")
+   * @param phone - Phone number, local or international (e.g., "0248048753", "+233 24 804 8753")
    * @param otp - 4-digit OTP code
    * @returns Promise with verification response
    * @throws Error if verification fails
    */
   async confirmPhoneVerification(phone: string, otp: string): Promise<PhoneVerificationResponse> {
     try {
-      const response = await this.client.post<PhoneVerificationResponse>('/auth/confirm-phone-verification', {
-        phone,
+      const response = await this.client.post('/auth/confirm-phone-verification', {
+        phone: this.normalizePhoneNumber(phone),
         otp,
       });
-      return response.data;
+      return this.validate(schemas.phoneVerification, unwrapResource<PhoneVerificationResponse>(response.data), 'confirmPhoneVerification');
     } catch (error) {
       // Extract detailed error message for better user feedback
       throw this.handleError(error, 'Failed to confirm phone verification', true);
     }
   }
 
-  // ==================== Phone Number Management ====================
+  // ==================== Password Reset ====================
 
   /**
-   * Get all phone numbers for the authenticated user
-   * @returns Promise with array of user phone numbers
-   * @throws Error if fetch fails
+   * Start a password reset. Email users receive a reset link; phone users receive an OTP
+   * (`/auth/send-otp` with `purpose: 'password_reset'`)
+   * @throws IAMValidationError if the email or phone number is invalid or unknown
+   * @throws IAMRateLimitError if too many resets were requested
+   * @example
+   * ```typescript
+   * await iamClient.requestPasswordReset({ email: 'ama@example.com' });
+   * await iamClient.requestPasswordReset({ phone: '0248048753' });
+   * ```
    */
-  async getUserPhoneNumbers(): Promise<UserPhoneNumber[]> {
+  async requestPasswordReset(request: PasswordResetRequest): Promise<PasswordResetRequestResponse> {
     try {
-      const response = await this.client.get<{ data: UserPhoneNumber[] }>('/user-phone-numbers');
-      return response.data.data;
+      const response =
+        'phone' in request
+          ? await this.client.post('/auth/send-otp', { phone: this.normalizePhoneNumber(request.phone), purpose: 'password_reset' })
+          : await this.client.post('/auth/forgot-password', { email: request.email });
+      return unwrapResource<PasswordResetRequestResponse>(response.data);
     } catch (error) {
-      throw this.handleError(error, 'Failed to fetch phone numbers');
+      throw this.handleError(error, 'Failed to request password reset', true);
     }
   }
 
   /**
-   * Add a new phone number to the authenticated user's account
-   * @param phone - 10-digit phone number starting with 0 (e.g., "0248048753")
-   * @param label - Optional label for the phone number (e.g., "Work", "Personal")
-   * @returns Promise with the created phone number
-   * @throws Error if phone number is invalid or already exists
+   * Check a password reset OTP before asking for the new password
+   * @returns Promise with the reset token to pass to resetPassword()
+   * @throws IAMValidationError if the OTP is invalid or expired
    */
-  async addPhoneNumber(phone: string, label?: string): Promise<UserPhoneNumber> {
+  async verifyPasswordResetOtp(phone: string, otp: string): Promise<PasswordResetOtpResponse> {
     try {
-      const response = await this.client.post<{ data: UserPhoneNumber; message: string }>('/user-phone-numbers', {
-        phone,
-        label,
-      });
-      return response.data.data;
+      const response = await this.client.post('/auth/verify-reset-otp', { phone: this.normalizePhoneNumber(phone), otp });
+      return unwrapResource<PasswordResetOtpResponse>(response.data);
     } catch (error) {
-      throw this.handleError(error, 'Failed to add phone number', true);
+      throw this.handleError(error, 'Failed to verify password reset code', true);
     }
   }
 
   /**
-   * Update a phone number's label
-   * @param id - Phone number ID
-   * @param label - New label for the phone number
-   * @returns Promise with the updated phone number
-   * @throws Error if update fails or phone number doesn't belong to user
-   */
+   * Set a new password with the emailed reset token, the token from verifyPasswordResetOtp(), or the OTP itself
+   * @throws IAMValidationError if the token or OTP is invalid, or the password is rejected
+   * @example
+   * ```typescript
+   * await iamClient.resetPassword({ email, token: tokenFromLink, password: 'n3w-Passw0rd' });
+   * await iamClient.resetPassword({ phone: '0248048753', otp: '1234', password: 'n3w-Passw0rd' });
+   * ```
+   */
+  async resetPassword(request: ResetPasswordRequest): Promise<PasswordResetResponse> {
+    try {
+      const response = await this.client.post('/auth/reset-password', {
+        ...request,
+        ...('phone' in request ? { phone: this.normalizePhoneNumber(request.phone) } : {}),
+        password_confirmation: request.password_confirmation ?? request.password,
+      });
+      return unwrapResource<PasswordResetResponse>(response.data);
+    } catch (error) {
+      throw this.handleError(error, 'Failed to reset password', true);
+    }
+  }
+
+  /**
+   * Change the authenticated user's password
+   * @throws IAMValidationError if the current password is wrong or the new one is rejected
+   */
+  async changePassword(currentPassword: string, newPassword: string): Promise<PasswordResetResponse> {
+    try {
+      const response = await this.client.post('/auth/change-password', {
+        current_password: currentPassword,
+        password: newPassword,
+        password_confirmation: newPassword,
+      });
+      return unwrapResource<PasswordResetResponse>(response.data);
+    } catch (error) {
+      throw this.handleError(error, 'Failed to change password', true);
+    }
+  }
+
+  // ==================== Phone Number Management ====================
+
+  /**
+   * Parse a phone number with the configured `phoneNumbers` rules
+   * @returns null if the number is invalid, or with `phoneNumbers: false` (numbers are sent as given)
+   */
+  parsePhoneNumber(phone: string): ParsedPhoneNumber | null {
+    if (this.config.phoneNumbers === false) {
+      return null;
+    }
+    const { rules = GHANA_PHONE_RULES } = this.config.phoneNumbers ?? {};
+    return parsePhoneNumber(phone, rules);
+  }
+
+  /**
+   * Get the validation message for a phone number under the configured `phoneNumbers` rules
+   * @returns null if the number would be sent, including every number with `phoneNumbers: false`
+   */
+  getPhoneNumberError(phone: string): string | null {
+    if (this.config.phoneNumbers === false) {
+      return null;
+    }
+    const { rules = GHANA_PHONE_RULES } = this.config.phoneNumbers ?? {};
+    return getPhoneNumberError(phone, rules);
+  }
+
+  /**
+   * Convert a phone number to the format sent to the IAM API, as the phone methods do
+   * @throws IAMValidationError if the number is invalid
+   */
+  normalizePhoneNumber(phone: string): string {
+    if (this.config.phoneNumbers === false) {
+      return phone;
+    }
+    const { rules = GHANA_PHONE_RULES, format = 'local' } = this.config.phoneNumbers ?? {};
+    return normalizePhoneNumber(phone, format, rules);
+  }
+
+  /**
+   * Get all phone numbers for the authenticated user
+   * @returns Promise with array of user phone numbers
+   * @throws Error if fetch fails
+   */
+  async getUserPhoneNumbers(): Promise<UserPhoneNumber[]> {
+    try {
+      const response = await this.client.get('/user-phone-numbers');
+      return this.validate(listSchema(schemas.userPhoneNumber), unwrapCollection<UserPhoneNumber>(response.data), 'getUserPhoneNumbers');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch phone numbers');
+    }
+  }
+
+  /**
+   * Add a new phone number to the authenticated user's account
+   * @param phone - Phone number, local or international (e.g., "0248048753", "+233 24 804 8753")
+   * @param label - Optional label for the phone number (e.g., "Work", "Personal")
+   * @returns Promise with the created phone number
+   * @throws Error if phone number is invalid or already exists
+   */
+  async addPhoneNumber(phone: string, label?: string): Promise<UserPhoneNumber> {
+    try {
+      const response = await this.client.post('/user-phone-numbers', {
+        phone: this.normalizePhoneNumber(phone),
+        label,
+      });
+      return this.validate(schemas.userPhoneNumber, unwrapResource<UserPhoneNumber>(response.data), 'addPhoneNumber');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to add phone number', true);
+    }
+  }
+
+  /**
+   * Update a phone number's label
+   * @param id - Phone number ID
+   * @param label - New label for the phone number
+   * @returns Promise with the updated phone number
+   * @throws Error if update fails or phone number doesn't belong to user
+   */
   async updatePhoneNumber(id: string, label: string): Promise<UserPhoneNumber> {
     try {
-      const response = await this.client.put<{ data: UserPhoneNumber; message: string }>(`/user-phone-numbers/${id}`, {
+      const response = await this.client.put(`/user-phone-numbers/${id}`, {
         label,
       });
-      return response.data.data;
+      return this.validate(schemas.userPhoneNumber, unwrapResource<UserPhoneNumber>(response.data), 'updatePhoneNumber');
     } catch (error) {
       throw this.handleError(error, 'Failed to update phone number', true);
     }
@@ -478,8 +1333,8 @@ export class IAMClient {
    */
   async setPhoneNumberAsPrimary(id: string): Promise<UserPhoneNumber> {
     try {
-      const response = await this.client.post<{ data: UserPhoneNumber; message: string }>(`/user-phone-numbers/${id}/set-primary`);
-      return response.data.data;
+      const response = await this.client.post(`/user-phone-numbers/${id}/set-primary`);
+      return this.validate(schemas.userPhoneNumber, unwrapResource<UserPhoneNumber>(response.data), 'setPhoneNumberAsPrimary');
     } catch (error) {
       throw this.handleError(error, 'Failed to set phone number as primary', true);
     }
@@ -493,8 +1348,8 @@ export class IAMClient {
    */
   async sendPhoneNumberVerification(id: string): Promise<{ message: string; expires_at: string }> {
     try {
-      const response = await this.client.post<{ message: string; expires_at: string }>(`/user-phone-numbers/${id}/send-verification`);
-      return response.data;
+      const response = await this.client.post(`/user-phone-numbers/${id}/send-verification`);
+      return unwrapResource<{ message: string; expires_at: string }>(response.data);
     } catch (error) {
       throw this.handleError(error, 'Failed to send verification code', true);
     }
@@ -509,10 +1364,10 @@ export class IAMClient {
    */
   async verifyPhoneNumber(id: string, otp: string): Promise<UserPhoneNumber> {
     try {
-      const response = await this.client.post<{ data: UserPhoneNumber; message: string }>(`/user-phone-numbers/${id}/verify`, {
+      const response = await this.client.post(`/user-phone-numbers/${id}/verify`, {
         otp,
       });
-      return response.data.data;
+      return this.validate(schemas.userPhoneNumber, unwrapResource<UserPhoneNumber>(response.data), 'verifyPhoneNumber');
     } catch (error) {
       throw this.handleError(error, 'Failed to verify phone number', true);
     }
@@ -523,24 +1378,35 @@ export class IAMClient {
   /**
    * Get all users
    */
-  async getUsers(params?: QueryParams): Promise<PaginatedResponse<User>> {
+  async getUsers(query?: UserQuery): Promise<PaginatedResponse<User>> {
     try {
-      const response = await this.client.get<PaginatedResponse<User>>('/users', { params });
-      return response.data;
+      const response = await this.client.get('/users', { params: buildQueryParams(query) });
+      return this.validate(pageSchema(schemas.user), toPaginatedResponse<User>(response.data), 'getUsers');
     } catch (error) {
       throw this.handleError(error, 'Failed to fetch users');
     }
   }
 
+  /**
+   * Iterate over every user matching the filters, fetching pages as needed
+   * @example
+   * ```typescript
+   * for await (const user of client.iterateUsers({ filter: { status: 'active' } }, { pageSize: 100, concurrency: 3 })) {
+   *   await directory.upsert(user);
+   * }
+   * ```
+   */
+  iterateUsers(query?: UserQuery, options?: PaginateOptions): Paginator<User> {
+    return paginate((pageQuery) => this.getUsers(pageQuery), query, options);
+  }
+
   /**
    * Get a specific user by ID
    */
   async getUser(userId: string | number): Promise<User> {
     try {
-      const response = await this.client.get<{data: User} | User>(`/users/${userId}`);
-      // Laravel API wraps response in {data: ...}, unwrap it
-      const data = response.data;
-      return 'data' in data ? data.data : data;
+      const response = await this.client.get(`/users/${userId}`);
+      return this.validate(schemas.user, unwrapResource<User>(response.data), 'getUser');
     } catch (error) {
       throw this.handleError(error, 'Failed to fetch user');
     }
@@ -551,8 +1417,8 @@ export class IAMClient {
    */
   async createUser(userData: Partial<User> & { password: string }): Promise<User> {
     try {
-      const response = await this.client.post<User>('/users', userData);
-      return response.data;
+      const response = await this.client.post('/users', userData);
+      return this.validate(schemas.user, unwrapResource<User>(response.data), 'createUser');
     } catch (error) {
       throw this.handleError(error, 'Failed to create user');
     }
@@ -563,8 +1429,8 @@ export class IAMClient {
    */
   async updateUser(userId: string | number, userData: Partial<User>): Promise<User> {
     try {
-      const response = await this.client.put<User>(`/users/${userId}`, userData);
-      return response.data;
+      const response = await this.client.put(`/users/${userId}`, userData);
+      return this.validate(schemas.user, unwrapResource<User>(response.data), 'updateUser');
     } catch (error) {
       throw this.handleError(error, 'Failed to update user');
     }
@@ -586,22 +1452,31 @@ export class IAMClient {
   /**
    * Get all departments
    */
-  async getDepartments(params?: QueryParams): Promise<PaginatedResponse<Department>> {
+  async getDepartments(query?: DepartmentQuery): Promise<PaginatedResponse<Department>> {
     try {
-      const response = await this.client.get<PaginatedResponse<Department>>('/departments', { params });
-      return response.data;
+      const response = await this.client.get('/departments', {
+        params: buildQueryParams(query),
+      });
+      return this.validate(pageSchema(schemas.department), toPaginatedResponse<Department>(response.data), 'getDepartments');
     } catch (error) {
       throw this.handleError(error, 'Failed to fetch departments');
     }
   }
 
+  /**
+   * Iterate over every department, fetching pages as needed
+   */
+  iterateDepartments(query?: DepartmentQuery, options?: PaginateOptions): Paginator<Department> {
+    return paginate((pageQuery) => this.getDepartments(pageQuery), query, options);
+  }
+
   /**
    * Get a specific department by ID
    */
   async getDepartment(departmentId: string | number): Promise<Department> {
     try {
-      const response = await this.client.get<Department>(`/departments/${departmentId}`);
-      return response.data;
+      const response = await this.client.get(`/departments/${departmentId}`);
+      return this.validate(schemas.department, unwrapResource<Department>(response.data), 'getDepartment');
     } catch (error) {
       throw this.handleError(error, 'Failed to fetch department');
     }
@@ -612,8 +1487,8 @@ export class IAMClient {
    */
   async createDepartment(departmentData: Partial<Department>): Promise<Department> {
     try {
-      const response = await this.client.post<Department>('/departments', departmentData);
-      return response.data;
+      const response = await this.client.post('/departments', departmentData);
+      return this.validate(schemas.department, unwrapResource<Department>(response.data), 'createDepartment');
     } catch (error) {
       throw this.handleError(error, 'Failed to create department');
     }
@@ -624,8 +1499,8 @@ export class IAMClient {
    */
   async updateDepartment(departmentId: string | number, departmentData: Partial<Department>): Promise<Department> {
     try {
-      const response = await this.client.put<Department>(`/departments/${departmentId}`, departmentData);
-      return response.data;
+      const response = await this.client.put(`/departments/${departmentId}`, departmentData);
+      return this.validate(schemas.department, unwrapResource<Department>(response.data), 'updateDepartment');
     } catch (error) {
       throw this.handleError(error, 'Failed to update department');
     }
@@ -647,8 +1522,8 @@ export class IAMClient {
    */
   async getUsersByDepartment(departmentId: string | number): Promise<User[]> {
     try {
-      const response = await this.client.get<User[]>(`/departments/${departmentId}/users`);
-      return response.data;
+      const response = await this.client.get(`/departments/${departmentId}/users`);
+      return this.validate(listSchema(schemas.user), unwrapCollection<User>(response.data), 'getUsersByDepartment');
     } catch (error) {
       throw this.handleError(error, 'Failed to fetch department users');
     }
@@ -659,36 +1534,114 @@ export class IAMClient {
    */
   async searchDepartments(query: string = ''): Promise<Department[]> {
     try {
-      const response = await this.client.get<Department[]>('/departments/search', {
+      const response = await this.client.get('/departments/search', {
         params: { q: query },
       });
-      return response.data;
+      return this.validate(listSchema(schemas.department), unwrapCollection<Department>(response.data), 'searchDepartments');
     } catch (error) {
       throw this.handleError(error, 'Failed to search departments');
     }
   }
 
+  /**
+   * Get every department nested under its parent department
+   * @returns The root departments, each with its `children`
+   * @throws IAMCycleError if the parent links loop
+   */
+  async getDepartmentTree(): Promise<DepartmentNode[]> {
+    try {
+      return buildTree(await this.fetchAllDepartments(), departmentHierarchy);
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch department tree');
+    }
+  }
+
+  /**
+   * Get the departments above a department, nearest parent first
+   * @throws IAMNotFoundError if the department does not exist
+   * @throws IAMCycleError if the parent links loop
+   */
+  async getDepartmentAncestors(departmentId: string | number): Promise<Department[]> {
+    try {
+      const departments = await this.fetchAllDepartments();
+      this.assertDepartmentExists(departments, departmentId);
+      return findAncestors(departments, departmentId, departmentHierarchy);
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch department ancestors');
+    }
+  }
+
+  /**
+   * Get every department below a department, level by level
+   * @throws IAMNotFoundError if the department does not exist
+   * @throws IAMCycleError if the parent links loop
+   */
+  async getDepartmentDescendants(departmentId: string | number): Promise<Department[]> {
+    try {
+      const departments = await this.fetchAllDepartments();
+      this.assertDepartmentExists(departments, departmentId);
+      return findDescendants(departments, departmentId, departmentHierarchy);
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch department descendants');
+    }
+  }
+
+  /**
+   * Get the users of a department and all of its sub-departments, each user once
+   * @param options.concurrency - How many departments are fetched at once (default: 4)
+   * @example
+   * ```typescript
+   * const operations = await iamClient.getUsersInDepartmentTree(operationsId);
+   * ```
+   */
+  async getUsersInDepartmentTree(departmentId: string | number, options: { concurrency?: number } = {}): Promise<User[]> {
+    const descendants = await this.getDepartmentDescendants(departmentId);
+    const departmentIds = [departmentId, ...descendants.map((department) => department.id)];
+    const results = await mapConcurrently(departmentIds, options.concurrency ?? 4, (id) => this.getUsersByDepartment(id));
+    return uniqueUsers(results.flat());
+  }
+
+  /**
+   * Load every department page; the hierarchy helpers need the whole list
+   */
+  private fetchAllDepartments(): Promise<Department[]> {
+    return this.iterateDepartments().toArray();
+  }
+
+  private assertDepartmentExists(departments: Department[], departmentId: string | number): void {
+    if (!departments.some((department) => String(department.id) === String(departmentId))) {
+      throw new IAMNotFoundError(`Department ${departmentId} not found`);
+    }
+  }
+
   // ==================== Position Management ====================
 
   /**
    * Get all positions
    */
-  async getPositions(params?: QueryParams): Promise<PaginatedResponse<Position>> {
+  async getPositions(query?: PositionQuery): Promise<PaginatedResponse<Position>> {
     try {
-      const response = await this.client.get<PaginatedResponse<Position>>('/positions', { params });
-      return response.data;
+      const response = await this.client.get('/positions', { params: buildQueryParams(query) });
+      return this.validate(pageSchema(schemas.position), toPaginatedResponse<Position>(response.data), 'getPositions');
     } catch (error) {
       throw this.handleError(error, 'Failed to fetch positions');
     }
   }
 
+  /**
+   * Iterate over every position, fetching pages as needed
+   */
+  iteratePositions(query?: PositionQuery, options?: PaginateOptions): Paginator<Position> {
+    return paginate((pageQuery) => this.getPositions(pageQuery), query, options);
+  }
+
   /**
    * Get a specific position by ID
    */
   async getPosition(positionId: string | number): Promise<Position> {
     try {
-      const response = await this.client.get<Position>(`/positions/${positionId}`);
-      return response.data;
+      const response = await this.client.get(`/positions/${positionId}`);
+      return this.validate(schemas.position, unwrapResource<Position>(response.data), 'getPosition');
     } catch (error) {
       throw this.handleError(error, 'Failed to fetch position');
     }
@@ -699,8 +1652,8 @@ export class IAMClient {
    */
   async getPositionsByDepartment(departmentId: string | number): Promise<Position[]> {
     try {
-      const response = await this.client.get<Position[]>(`/departments/${departmentId}/positions`);
-      return response.data;
+      const response = await this.client.get(`/departments/${departmentId}/positions`);
+      return this.validate(listSchema(schemas.position), unwrapCollection<Position>(response.data), 'getPositionsByDepartment');
     } catch (error) {
       throw this.handleError(error, 'Failed to fetch department positions');
     }
@@ -711,8 +1664,8 @@ export class IAMClient {
    */
   async createPosition(positionData: Partial<Position>): Promise<Position> {
     try {
-      const response = await this.client.post<Position>('/positions', positionData);
-      return response.data;
+      const response = await this.client.post('/positions', positionData);
+      return this.validate(schemas.position, unwrapResource<Position>(response.data), 'createPosition');
     } catch (error) {
       throw this.handleError(error, 'Failed to create position');
     }
@@ -723,8 +1676,8 @@ export class IAMClient {
    */
   async updatePosition(positionId: string | number, positionData: Partial<Position>): Promise<Position> {
     try {
-      const response = await this.client.put<Position>(`/positions/${positionId}`, positionData);
-      return response.data;
+      const response = await this.client.put(`/positions/${positionId}`, positionData);
+      return this.validate(schemas.position, unwrapResource<Position>(response.data), 'updatePosition');
     } catch (error) {
       throw this.handleError(error, 'Failed to update position');
     }
@@ -746,8 +1699,8 @@ export class IAMClient {
    */
   async getUsersByPosition(positionId: string | number): Promise<User[]> {
     try {
-      const response = await this.client.get<User[]>(`/positions/${positionId}/users`);
-      return response.data;
+      const response = await this.client.get(`/positions/${positionId}/users`);
+      return this.validate(listSchema(schemas.user), unwrapCollection<User>(response.data), 'getUsersByPosition');
     } catch (error) {
       throw this.handleError(error, 'Failed to fetch position users');
     }
@@ -758,63 +1711,385 @@ export class IAMClient {
    */
   async searchPositions(query: string = ''): Promise<Position[]> {
     try {
-      const response = await this.client.get<Position[]>('/positions/search', {
+      const response = await this.client.get('/positions/search', {
         params: { q: query },
       });
-      return response.data;
+      return this.validate(listSchema(schemas.position), unwrapCollection<Position>(response.data), 'searchPositions');
     } catch (error) {
       throw this.handleError(error, 'Failed to search positions');
     }
   }
 
-  // ==================== Error Handling ====================
+  // ==================== Reporting Lines ====================
 
-  private handleError(error: any, message: string, preferDetailedMessage: boolean = false): Error {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      
-      if (axiosError.response?.data) {
-        const errorData: any = axiosError.response.data;
-        
-        // Extract the most relevant error message
-        let errorMessage = message;
-        
-        // For OTP and auth errors, prefer the detailed field-specific error message
-        if (preferDetailedMessage && errorData.errors) {
-          // Try to get the first field error (usually phone or otp)
-          const firstFieldErrors = Object.values(errorData.errors)[0];
-          if (Array.isArray(firstFieldErrors) && firstFieldErrors.length > 0) {
-            errorMessage = firstFieldErrors[0];
-          }
-        } else if (errorData.message) {
-          // Otherwise use the general message
-          errorMessage = errorData.message;
-        }
-        
-        // If we still haven't found a good message, try field errors
-        if (errorMessage === message && errorData.errors) {
-          const fieldErrors = Object.entries(errorData.errors)
-            .map(([field, messages]: [string, any]) => {
-              const msgs = Array.isArray(messages) ? messages : [messages];
-              return msgs.join(', ');
-            })
-            .join('; ');
-          
-          if (fieldErrors) {
-            errorMessage = fieldErrors;
-          }
+  /**
+   * Get a user's managers, nearest first, up to the top of the organization.
+   * Follows `reports_to_position_id` from the user's first position; users without a position
+   * follow the `manager_id` of their department and its parent departments
+   * @example
+   * ```typescript
+   * const [manager] = await iamClient.getReportingChain(requesterId);
+   * ```
+   */
+  async getReportingChain(userId: string | number): Promise<User[]> {
+    try {
+      const user = await this.getUser(userId);
+      const positions = await this.fetchAllPositions();
+      const [position] = this.heldPositions(user, positions);
+
+      if (position) {
+        const managerPositions = findAncestors(positions, position.id, positionHierarchy);
+        const holders = await mapConcurrently(managerPositions, 4, (manager) => this.getUsersByPosition(manager.id));
+        return uniqueUsers(holders.flat()).filter((holder) => !sameId(holder.id, userId));
+      }
+
+      const departmentId = user.department?.id ?? user.department_id ?? user.departments?.[0]?.id;
+      if (departmentId === undefined) {
+        return [];
+      }
+      const departments = await this.fetchAllDepartments();
+      const department = departments.find((candidate) => sameId(candidate.id, departmentId));
+      const chain = department ? [department, ...findAncestors(departments, department.id, departmentHierarchy)] : [];
+      const managerIds: (string | number)[] = [];
+      for (const { manager_id: managerId } of chain) {
+        // Managers of their own department report to the parent department's manager
+        if (managerId !== null && managerId !== undefined && !sameId(managerId, userId) && !managerIds.some((id) => sameId(id, managerId))) {
+          managerIds.push(managerId);
         }
-        
-        const err = new Error(errorMessage);
-        // Attach the full error data for programmatic access
-        (err as any).data = errorData;
-        (err as any).statusCode = axiosError.response?.status;
-        return err;
       }
-      
-      return new Error(`${message}: ${axiosError.message}`);
+      return mapConcurrently(managerIds, 4, (managerId) => this.getUser(managerId));
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch reporting chain');
     }
-    
-    return new Error(`${message}: ${error.message || 'Unknown error'}`);
+  }
+
+  /**
+   * Get the users reporting directly to a user: holders of the positions that report to the user's
+   * positions or, for users without a position, the members of the departments they manage
+   */
+  async getDirectReports(userId: string | number): Promise<User[]> {
+    try {
+      const user = await this.getUser(userId);
+      const positions = await this.fetchAllPositions();
+      const held = this.heldPositions(user, positions);
+
+      if (held.length) {
+        const reportPositions = positions.filter((position) =>
+          held.some((own) => sameId(position.reports_to_position_id, own.id))
+        );
+        const holders = await mapConcurrently(reportPositions, 4, (position) => this.getUsersByPosition(position.id));
+        return uniqueUsers(holders.flat()).filter((holder) => !sameId(holder.id, userId));
+      }
+
+      const managed = (await this.fetchAllDepartments()).filter((department) => sameId(department.manager_id, userId));
+      const members = await mapConcurrently(managed, 4, (department) => this.getUsersByDepartment(department.id));
+      return uniqueUsers(members.flat()).filter((member) => !sameId(member.id, userId));
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch direct reports');
+    }
+  }
+
+  /**
+   * Get everyone below a user in the reporting line, direct and indirect
+   * @param options.concurrency - How many positions or departments are fetched at once (default: 4)
+   */
+  async getAllReports(userId: string | number, options: { concurrency?: number } = {}): Promise<User[]> {
+    const concurrency = options.concurrency ?? 4;
+    try {
+      const user = await this.getUser(userId);
+      const positions = await this.fetchAllPositions();
+      const held = this.heldPositions(user, positions);
+
+      if (held.length) {
+        const reportPositions = held.flatMap((own) => findDescendants(positions, own.id, positionHierarchy));
+        const holders = await mapConcurrently(reportPositions, concurrency, (position) => this.getUsersByPosition(position.id));
+        return uniqueUsers(holders.flat()).filter((holder) => !sameId(holder.id, userId));
+      }
+
+      const managed = (await this.fetchAllDepartments()).filter((department) => sameId(department.manager_id, userId));
+      const members = await mapConcurrently(managed, 1, (department) =>
+        this.getUsersInDepartmentTree(department.id, { concurrency })
+      );
+      return uniqueUsers(members.flat()).filter((member) => !sameId(member.id, userId));
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch reports');
+    }
+  }
+
+  /**
+   * Export the org chart: every position nested under the position it reports to, with its holders
+   * @param options.concurrency - How many positions' users are fetched at once (default: 4)
+   * @returns The top-level positions
+   * @throws IAMCycleError if the reporting lines loop
+   * @example
+   * ```typescript
+   * const chart = await iamClient.getOrgChart();
+   * fs.writeFileSync('org-chart.json', JSON.stringify(chart, null, 2));
+   * ```
+   */
+  async getOrgChart(options: { concurrency?: number } = {}): Promise<OrgChartNode[]> {
+    try {
+      const positions = await this.fetchAllPositions();
+      const tree = buildTree(positions, positionHierarchy);
+      const holders = await mapConcurrently(positions, options.concurrency ?? 4, (position) => this.getUsersByPosition(position.id));
+      const holdersById = new Map(positions.map((position, index) => [String(position.id), holders[index]]));
+
+      const toNode = ({ children, ...position }: TreeNode<Position>): OrgChartNode => ({
+        position,
+        users: holdersById.get(String(position.id)) ?? [],
+        reports: children.map(toNode),
+      });
+      return tree.map(toNode);
+    } catch (error) {
+      throw this.handleError(error, 'Failed to build org chart');
+    }
+  }
+
+  /**
+   * Load every position page; the reporting helpers need the whole list
+   */
+  private fetchAllPositions(): Promise<Position[]> {
+    return this.iteratePositions().toArray();
+  }
+
+  /**
+   * The user's positions as listed by /positions, which carries `reports_to_position_id`
+   */
+  private heldPositions(user: User, positions: Position[]): Position[] {
+    return (user.positions ?? []).map((own) => positions.find((position) => sameId(position.id, own.id)) ?? own);
+  }
+
+  // ==================== Role & Permission Management ====================
+
+  /**
+   * Get all roles
+   */
+  async getRoles(query?: RoleQuery): Promise<PaginatedResponse<Role>> {
+    try {
+      const response = await this.client.get('/roles', { params: buildQueryParams(query) });
+      return this.validate(pageSchema(schemas.role), toPaginatedResponse<Role>(response.data), 'getRoles');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch roles');
+    }
+  }
+
+  /**
+   * Iterate over every role, fetching pages as needed
+   */
+  iterateRoles(query?: RoleQuery, options?: PaginateOptions): Paginator<Role> {
+    return paginate((pageQuery) => this.getRoles(pageQuery), query, options);
+  }
+
+  /**
+   * Get a specific role by ID
+   */
+  async getRole(roleId: string | number): Promise<Role> {
+    try {
+      const response = await this.client.get(`/roles/${roleId}`);
+      return this.validate(schemas.role, unwrapResource<Role>(response.data), 'getRole');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch role');
+    }
+  }
+
+  /**
+   * Create a new role
+   */
+  async createRole(roleData: Partial<Role>): Promise<Role> {
+    try {
+      const response = await this.client.post('/roles', roleData);
+      return this.validate(schemas.role, unwrapResource<Role>(response.data), 'createRole');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to create role');
+    }
+  }
+
+  /**
+   * Update an existing role
+   */
+  async updateRole(roleId: string | number, roleData: Partial<Role>): Promise<Role> {
+    try {
+      const response = await this.client.put(`/roles/${roleId}`, roleData);
+      return this.validate(schemas.role, unwrapResource<Role>(response.data), 'updateRole');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to update role');
+    }
+  }
+
+  /**
+   * Delete a role
+   */
+  async deleteRole(roleId: string | number): Promise<void> {
+    try {
+      await this.client.delete(`/roles/${roleId}`);
+    } catch (error) {
+      throw this.handleError(error, 'Failed to delete role');
+    }
+  }
+
+  /**
+   * Replace a role's permissions
+   * @param permissions - Permission IDs or names; permissions not listed are removed
+   * @returns Promise with the role and its new permissions
+   */
+  async syncRolePermissions(roleId: string | number, permissions: (string | number)[]): Promise<Role> {
+    try {
+      const response = await this.client.put(`/roles/${roleId}/permissions`, { permissions });
+      return this.validate(schemas.role, unwrapResource<Role>(response.data), 'syncRolePermissions');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to sync role permissions');
+    }
+  }
+
+  /**
+   * Get users holding a specific role
+   */
+  async getUsersByRole(roleId: string | number): Promise<User[]> {
+    try {
+      const response = await this.client.get(`/roles/${roleId}/users`);
+      return this.validate(listSchema(schemas.user), unwrapCollection<User>(response.data), 'getUsersByRole');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch role users');
+    }
+  }
+
+  /**
+   * Give a user a role, keeping their other roles
+   * @param role - Role ID or name
+   * @returns Promise with the updated user
+   */
+  async assignRole(userId: string | number, role: string | number): Promise<User> {
+    try {
+      const response = await this.client.post(`/users/${userId}/roles`, { role });
+      return this.validate(schemas.user, unwrapResource<User>(response.data), 'assignRole');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to assign role');
+    }
+  }
+
+  /**
+   * Remove a role from a user
+   * @param role - Role ID or name
+   * @returns Promise with the updated user
+   */
+  async revokeRole(userId: string | number, role: string | number): Promise<User> {
+    try {
+      const response = await this.client.delete(`/users/${userId}/roles/${encodeURIComponent(String(role))}`);
+      return this.validate(schemas.user, unwrapResource<User>(response.data), 'revokeRole');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to revoke role');
+    }
+  }
+
+  /**
+   * Replace a user's roles
+   * @param roles - Role IDs or names; roles not listed are removed
+   * @returns Promise with the updated user
+   */
+  async syncUserRoles(userId: string | number, roles: (string | number)[]): Promise<User> {
+    try {
+      const response = await this.client.put(`/users/${userId}/roles`, { roles });
+      return this.validate(schemas.user, unwrapResource<User>(response.data), 'syncUserRoles');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to sync user roles');
+    }
+  }
+
+  /**
+   * Get all permissions
+   */
+  async getPermissions(query?: PermissionQuery): Promise<PaginatedResponse<Permission>> {
+    try {
+      const response = await this.client.get('/permissions', { params: buildQueryParams(query) });
+      return this.validate(pageSchema(schemas.permission), toPaginatedResponse<Permission>(response.data), 'getPermissions');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch permissions');
+    }
+  }
+
+  /**
+   * Iterate over every permission, fetching pages as needed
+   */
+  iteratePermissions(query?: PermissionQuery, options?: PaginateOptions): Paginator<Permission> {
+    return paginate((pageQuery) => this.getPermissions(pageQuery), query, options);
+  }
+
+  /**
+   * Get a specific permission by ID
+   */
+  async getPermission(permissionId: string | number): Promise<Permission> {
+    try {
+      const response = await this.client.get(`/permissions/${permissionId}`);
+      return this.validate(schemas.permission, unwrapResource<Permission>(response.data), 'getPermission');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to fetch permission');
+    }
+  }
+
+  /**
+   * Create a new permission
+   */
+  async createPermission(permissionData: Partial<Permission>): Promise<Permission> {
+    try {
+      const response = await this.client.post('/permissions', permissionData);
+      return this.validate(schemas.permission, unwrapResource<Permission>(response.data), 'createPermission');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to create permission');
+    }
+  }
+
+  /**
+   * Update an existing permission
+   */
+  async updatePermission(permissionId: string | number, permissionData: Partial<Permission>): Promise<Permission> {
+    try {
+      const response = await this.client.put(`/permissions/${permissionId}`, permissionData);
+      return this.validate(schemas.permission, unwrapResource<Permission>(response.data), 'updatePermission');
+    } catch (error) {
+      throw this.handleError(error, 'Failed to update permission');
+    }
+  }
+
+  /**
+   * Delete a permission
+   */
+  async deletePermission(permissionId: string | number): Promise<void> {
+    try {
+      await this.client.delete(`/permissions/${permissionId}`);
+    } catch (error) {
+      throw this.handleError(error, 'Failed to delete permission');
+    }
+  }
+
+  // ==================== Error Handling ====================
+
+  /**
+   * Check a response against its schema according to `responseValidation`
+   */
+  private validate<T>(schema: Schema<T>, data: T, operation: string): T {
+    const mode = this.config.responseValidation ?? 'off';
+    if (mode === 'off') {
+      return data;
+    }
+
+    const issues = validateSchema(schema, data);
+    if (!issues.length) {
+      return data;
+    }
+    if (mode === 'strict') {
+      throw new IAMSchemaError(schema.name, issues, { data });
+    }
+
+    const drift = { schema: schema.name, operation, issues, data };
+    if (this.config.onSchemaDrift) {
+      this.config.onSchemaDrift(drift);
+    } else {
+      console.warn(`IAM ${operation}() returned an unexpected ${schema.name}:`, issues);
+    }
+    return data;
+  }
+
+  private handleError(error: any, message: string, preferDetailedMessage: boolean = false): IAMError {
+    return toIAMError(error, message, preferDetailedMessage);
   }
 }
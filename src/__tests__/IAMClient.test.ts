@@ -1,4 +1,45 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import { IAMClient } from '../IAMClient';
+import {
+  IAMAuthenticationError,
+  IAMError,
+  IAMNetworkError,
+  IAMNotFoundError,
+  IAMRateLimitError,
+  IAMSchemaError,
+  IAMValidationError,
+} from '../errors';
+import { MemoryTokenStore } from '../tokenStore';
+import { LRUCacheStore } from '../cache';
+import { parseCookies, serializeCookies } from '../cookies';
+
+type MockReply = { status: number; data?: any; headers?: Record<string, string | string[]> } | Error;
+
+/**
+ * Replace the client's HTTP adapter with a handler returning canned replies
+ */
+const mockHttp = (client: IAMClient, handler: (config: InternalAxiosRequestConfig) => MockReply) => {
+  const requests: InternalAxiosRequestConfig[] = [];
+  (client as any).client.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+    requests.push(config);
+    const reply = handler(config);
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    const response: AxiosResponse = {
+      data: reply.data,
+      status: reply.status,
+      statusText: String(reply.status),
+      headers: reply.headers || {},
+      config,
+    };
+    if (reply.status >= 400) {
+      throw new AxiosError(`Request failed with status code ${reply.status}`, undefined, config, null, response);
+    }
+    return response;
+  };
+  return requests;
+};
 
 describe('IAMClient', () => {
   let client: IAMClient;
@@ -43,6 +84,779 @@ describe('IAMClient', () => {
     });
   });
 
-  // Note: Add more tests with mocked axios for actual API calls
-  // This is a basic test structure
+  describe('error handling', () => {
+    it('should throw IAMValidationError with field errors', async () => {
+      mockHttp(client, () => ({
+        status: 422,
+        data: { message: 'The given data was invalid.', errors: { otp: ['The OTP is invalid.'] } },
+      }));
+
+      const error = await client.loginWithPhone({ phone: '0248048753', otp: '0000' }).catch((e) => e);
+      expect(error).toBeInstanceOf(IAMValidationError);
+      expect(error).toBeInstanceOf(IAMError);
+      expect(error.message).toBe('The OTP is invalid.');
+      expect(error.errors).toEqual({ otp: ['The OTP is invalid.'] });
+      expect(error.getFieldError('otp')).toBe('The OTP is invalid.');
+      expect(error.statusCode).toBe(422);
+    });
+
+    it('should map status codes to error classes', async () => {
+      mockHttp(client, (config) => {
+        if (config.url === '/users/1') return { status: 404, data: { message: 'User not found' } };
+        if (config.url === '/auth/send-otp') return { status: 429, data: { message: 'Too many requests' }, headers: { 'retry-after': '30' } };
+        return { status: 401, data: { message: 'Unauthenticated.' } };
+      });
+
+      await expect(client.getUser(1)).rejects.toBeInstanceOf(IAMNotFoundError);
+      await expect(client.getUsers()).rejects.toBeInstanceOf(IAMAuthenticationError);
+
+      const rateLimited = await client.sendOtp({ phone: '0248048753' }).catch((e) => e);
+      expect(rateLimited).toBeInstanceOf(IAMRateLimitError);
+      expect(rateLimited.retryAfter).toBe(30);
+    });
+
+    it('should throw IAMNetworkError when the service is unreachable', async () => {
+      mockHttp(client, (config) => new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED', config));
+
+      const error = await client.getDepartments().catch((e) => e);
+      expect(error).toBeInstanceOf(IAMNetworkError);
+      expect(error.message).toBe('Failed to fetch departments: connect ECONNREFUSED');
+    });
+  });
+
+  describe('automatic token refresh', () => {
+    let onTokenRefresh: jest.Mock;
+    let onAuthError: jest.Mock;
+
+    beforeEach(() => {
+      onTokenRefresh = jest.fn();
+      onAuthError = jest.fn();
+      client = new IAMClient({
+        baseUrl: 'http://localhost:8000/api/v1',
+        autoRefreshToken: true,
+        onTokenRefresh,
+        onAuthError,
+      });
+      client.setToken('expired-token');
+    });
+
+    it('should refresh once and replay every failed request', async () => {
+      const requests = mockHttp(client, (config) => {
+        if (config.url === '/auth/refresh') {
+          return { status: 200, data: { access_token: 'fresh-token', token_type: 'Bearer', expires_in: 3600 } };
+        }
+        if (config.headers.Authorization === 'Bearer fresh-token') {
+          return { status: 200, data: { id: config.url } };
+        }
+        return { status: 401, data: { message: 'Unauthenticated.' } };
+      });
+
+      const results = await Promise.all([client.getUser(1), client.getUser(2), client.getDepartment(3)]);
+
+      expect(results.map((r: any) => r.id)).toEqual(['/users/1', '/users/2', '/departments/3']);
+      expect(requests.filter((r) => r.url === '/auth/refresh')).toHaveLength(1);
+      expect(onTokenRefresh).toHaveBeenCalledTimes(1);
+      expect(onTokenRefresh).toHaveBeenCalledWith('fresh-token');
+      expect(client.getToken()).toBe('fresh-token');
+      expect(onAuthError).not.toHaveBeenCalled();
+    });
+
+    it('should fail all queued requests when the refresh fails', async () => {
+      const requests = mockHttp(client, () => ({ status: 401, data: { message: 'Unauthenticated.' } }));
+
+      const results = await Promise.allSettled([client.getUser(1), client.getUser(2)]);
+
+      expect(results.every((r) => r.status === 'rejected')).toBe(true);
+      results.forEach((r) => expect((r as PromiseRejectedResult).reason).toBeInstanceOf(IAMAuthenticationError));
+      expect(requests.filter((r) => r.url === '/auth/refresh')).toHaveLength(1);
+      expect(onAuthError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh when verifying the client\'s own token', async () => {
+      const me = { user: { id: 1, name: 'Ama', email: 'ama@example.com' }, permissions: [], roles: [] };
+      const requests = mockHttp(client, (config) => {
+        if (config.url === '/auth/refresh') {
+          return { status: 200, data: { access_token: 'fresh-token', token_type: 'Bearer', expires_in: 3600 } };
+        }
+        if (config.headers.Authorization !== 'Bearer fresh-token') {
+          return { status: 401, data: { message: 'Unauthenticated.' } };
+        }
+        return { status: 200, data: config.url === '/auth/me' ? me : { has_permission: true } };
+      });
+
+      await expect(client.getCurrentUser()).resolves.toMatchObject({ user: { id: 1 } });
+      await expect(client.hasPermission('users.view', 'fresh-token')).resolves.toBe(true);
+
+      expect(requests.map((r) => r.url)).toEqual(['/auth/me', '/auth/refresh', '/auth/me', '/auth/check-permission']);
+      expect(requests[3].headers.Authorization).toBe('Bearer fresh-token');
+    });
+
+    it('should not refresh for requests sent with an explicit token', async () => {
+      const requests = mockHttp(client, () => ({ status: 401, data: { message: 'Unauthenticated.' } }));
+
+      await expect(client.verifyToken('someone-else')).rejects.toBeInstanceOf(IAMAuthenticationError);
+      expect(requests.map((r) => r.url)).toEqual(['/auth/me']);
+      expect(requests[0].headers.Authorization).toBe('Bearer someone-else');
+    });
+  });
+
+  describe('token expiry', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should track expiry from expires_in', () => {
+      expect(client.getTokenExpiry()).toBeNull();
+      expect(client.isTokenExpired()).toBe(true);
+
+      client.setToken('token', 3600);
+      const expiry = client.getTokenExpiry();
+      expect(expiry).toBeInstanceOf(Date);
+      expect(expiry!.getTime()).toBeGreaterThan(Date.now() + 3590 * 1000);
+      expect(client.isTokenExpired()).toBe(false);
+      expect(client.isTokenExpired(3600 * 1000)).toBe(true);
+
+      client.clearToken();
+      expect(client.getTokenExpiry()).toBeNull();
+    });
+
+    it('should fall back to the JWT exp claim', () => {
+      const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const exp = Math.floor(Date.now() / 1000) + 600;
+
+      client.setToken(`${encode({ alg: 'none' })}.${encode({ exp })}.sig`);
+      expect(client.getTokenExpiry()).toEqual(new Date(exp * 1000));
+
+      client.setToken('opaque-token');
+      expect(client.getTokenExpiry()).toBeNull();
+    });
+
+    it('should refresh ahead of expiry and honour pause/resume', async () => {
+      jest.useFakeTimers();
+      client = new IAMClient({
+        baseUrl: 'http://localhost:8000/api/v1',
+        refreshBeforeExpiry: true,
+        tokenRefreshLeadTime: 30000,
+      });
+      const requests = mockHttp(client, () => ({
+        status: 200,
+        data: { access_token: 'fresh-token', token_type: 'Bearer', expires_in: 3600 },
+      }));
+
+      client.setToken('token', 120);
+      await jest.advanceTimersByTimeAsync(80000);
+      expect(requests).toHaveLength(0);
+
+      client.pauseTokenRefresh();
+      await jest.advanceTimersByTimeAsync(20000);
+      expect(requests).toHaveLength(0);
+
+      client.resumeTokenRefresh();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(requests.map((r) => r.url)).toEqual(['/auth/refresh']);
+      expect(client.getToken()).toBe('fresh-token');
+
+      client.clearToken();
+    });
+  });
+
+  describe('short-lived tokens', () => {
+    afterEach(() => {
+      client.clearToken();
+      jest.useRealTimers();
+    });
+
+    it('should refresh halfway through lifetimes shorter than the lead time', async () => {
+      jest.useFakeTimers();
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', refreshBeforeExpiry: true });
+      const requests = mockHttp(client, () => ({
+        status: 200,
+        data: { access_token: 'fresh-token', token_type: 'Bearer', expires_in: 30 },
+      }));
+
+      client.setToken('token', 30);
+      await jest.advanceTimersByTimeAsync(300);
+      expect(requests).toHaveLength(0);
+
+      await jest.advanceTimersByTimeAsync(15000);
+      expect(requests).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(15000);
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should space out refreshes of tokens issued already expired', async () => {
+      jest.useFakeTimers();
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', refreshBeforeExpiry: true });
+      const requests = mockHttp(client, () => ({
+        status: 200,
+        data: { access_token: 'fresh-token', token_type: 'Bearer', expires_in: 0 },
+      }));
+
+      client.setToken('token', 0);
+      await jest.advanceTimersByTimeAsync(300);
+      expect(requests).toHaveLength(1);
+
+      await jest.advanceTimersByTimeAsync(4000);
+      expect(requests).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(requests).toHaveLength(2);
+    });
+  });
+
+  describe('token store', () => {
+    it('should restore a persisted token before the first request', async () => {
+      const tokenStore = new MemoryTokenStore();
+      await tokenStore.set('stored-token');
+
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', tokenStore });
+      const requests = mockHttp(client, () => ({ status: 200, data: { data: [] } }));
+
+      await client.getUsers();
+      expect(requests[0].headers.Authorization).toBe('Bearer stored-token');
+      expect(client.getToken()).toBe('stored-token');
+    });
+
+    it('should track the expiry of a restored token', async () => {
+      jest.useFakeTimers();
+      const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const exp = Math.floor(Date.now() / 1000) + 120;
+      const tokenStore = new MemoryTokenStore();
+      await tokenStore.set(`${encode({ alg: 'none' })}.${encode({ exp })}.sig`);
+
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', tokenStore, refreshBeforeExpiry: true });
+      const requests = mockHttp(client, () => ({
+        status: 200,
+        data: { access_token: 'fresh-token', token_type: 'Bearer', expires_in: 3600 },
+      }));
+      await client.restoreToken();
+
+      expect(client.getTokenExpiry()).toEqual(new Date(exp * 1000));
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(requests.map((r) => r.url)).toEqual(['/auth/refresh']);
+
+      client.clearToken();
+      jest.useRealTimers();
+    });
+
+    it('should persist and clear the token', async () => {
+      const tokenStore = new MemoryTokenStore();
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', tokenStore });
+      await client.restoreToken();
+
+      client.setToken('new-token');
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(await tokenStore.get()).toBe('new-token');
+
+      client.clearToken();
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(await tokenStore.get()).toBeNull();
+    });
+  });
+
+  describe('verifyToken cache', () => {
+    const me = { user: { id: 1, name: 'Ama', email: 'ama@example.com' }, permissions: [], roles: [] };
+
+    it('should cache verification results under a hashed key', async () => {
+      const cacheStore = new LRUCacheStore();
+      const setSpy = jest.spyOn(cacheStore, 'set');
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', cacheStore, cacheTtl: 5000 });
+      const requests = mockHttp(client, () => ({ status: 200, data: me }));
+
+      await client.verifyToken('secret-token');
+      await client.verifyToken('secret-token');
+
+      expect(requests).toHaveLength(1);
+      const [key, , ttl] = setSpy.mock.calls[0];
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(key).not.toContain('secret-token');
+      expect(ttl).toBe(5000);
+    });
+
+    it('should not cache beyond the token expiry', async () => {
+      const cacheStore = new LRUCacheStore();
+      const setSpy = jest.spyOn(cacheStore, 'set');
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', cacheStore });
+      mockHttp(client, () => ({ status: 200, data: me }));
+
+      const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const exp = Math.floor(Date.now() / 1000) + 10;
+      await client.verifyToken(`${encode({ alg: 'none' })}.${encode({ exp })}.sig`);
+
+      expect(setSpy.mock.calls[0][2]).toBeLessThanOrEqual(10000);
+    });
+
+    it('should cache session verification separately from tokens', async () => {
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+      const requests = mockHttp(client, () => ({ status: 200, data: me }));
+
+      await client.verifySession('session-id');
+      await client.verifySession('session-id');
+      expect(requests).toHaveLength(1);
+
+      await client.verifyToken('session-id');
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should verify without caching when Web Crypto is unavailable', async () => {
+      const cacheStore = new LRUCacheStore();
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', cacheStore });
+      client.setToken('own-token');
+      const requests = mockHttp(client, () => ({ status: 200, data: me }));
+      const crypto = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+      Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+
+      try {
+        await expect(client.verifyToken()).resolves.toMatchObject({ user: { id: 1 } });
+        await expect(client.verifySession('session-id')).resolves.toMatchObject({ user: { id: 1 } });
+        client.withToken('user-token').clearToken();
+      } finally {
+        Object.defineProperty(globalThis, 'crypto', crypto);
+      }
+
+      expect(requests).toHaveLength(2);
+      expect(cacheStore.size).toBe(0);
+    });
+
+    it('should not hash tokens when caching is disabled', async () => {
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', cacheTtl: 0 });
+      const requests = mockHttp(client, () => ({ status: 200, data: me }));
+      const digest = jest.spyOn(globalThis.crypto.subtle, 'digest');
+
+      await client.verifyToken('token');
+      await client.verifyToken('token');
+
+      expect(requests).toHaveLength(2);
+      expect(digest).not.toHaveBeenCalled();
+      digest.mockRestore();
+    });
+
+    it('should evict the least recently used entry', async () => {
+      const cache = new LRUCacheStore<number>({ maxEntries: 2 });
+      await cache.set('a', 1, 60000);
+      await cache.set('b', 2, 60000);
+      await cache.get('a');
+      await cache.set('c', 3, 60000);
+
+      expect(cache.size).toBe(2);
+      expect(await cache.get('a')).toBe(1);
+      expect(await cache.get('b')).toBeUndefined();
+      expect(await cache.get('c')).toBe(3);
+    });
+  });
+
+  describe('request-scoped clients', () => {
+    const loginResponse = (token: string) => ({
+      status: 200,
+      data: { access_token: token, token_type: 'Bearer', expires_in: 3600, user: { id: 1, name: 'Kofi', email: 'kofi@example.com' } },
+    });
+
+    it('should send the scoped token without touching the shared token', async () => {
+      client.setToken('service-token');
+      const requests = mockHttp(client, () => ({ status: 200, data: { data: [] } }));
+
+      const scoped = client.withToken('user-token');
+      await Promise.all([scoped.getUsers(), client.getUsers()]);
+
+      expect(requests.map((r) => r.headers.Authorization)).toEqual(['Bearer user-token', 'Bearer service-token']);
+      expect(scoped.getToken()).toBe('user-token');
+      expect(client.getToken()).toBe('service-token');
+    });
+
+    it('should keep login and logout inside the scope', async () => {
+      client.setToken('service-token');
+      mockHttp(client, (config) => (config.url === '/auth/login' ? loginResponse('user-token') : { status: 200, data: {} }));
+
+      const scoped = client.withToken('anonymous');
+      await scoped.login({ email: 'kofi@example.com', password: 'secret' });
+      expect(scoped.getToken()).toBe('user-token');
+      expect(client.getToken()).toBe('service-token');
+
+      await scoped.logout();
+      expect(scoped.getToken()).toBeNull();
+      expect(client.getToken()).toBe('service-token');
+    });
+
+    it('should never fall back to the shared token once the scope has none', async () => {
+      client.setToken('service-token');
+      const requests = mockHttp(client, () => ({ status: 200, data: { data: [] } }));
+
+      const scoped = client.withToken('user-token');
+      await scoped.logout();
+      await scoped.getUsers();
+      await client.withToken('').getUsers();
+
+      expect(requests.map((r) => r.url)).toEqual(['/auth/logout', '/users', '/users']);
+      expect(requests[1].headers.Authorization).toBeUndefined();
+      expect(requests[2].headers.Authorization).toBeUndefined();
+      expect(client.getToken()).toBe('service-token');
+    });
+
+    it('should not store tokens on a server-mode client', async () => {
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', serverMode: true });
+      mockHttp(client, () => loginResponse('user-token'));
+
+      const response = await client.login({ email: 'kofi@example.com', password: 'secret' });
+      expect(response.access_token).toBe('user-token');
+      expect(client.getToken()).toBeNull();
+    });
+  });
+
+  describe('local JWT verification', () => {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const identity = { user: { id: 7, name: 'Esi', email: 'esi@example.com' }, permissions: ['users.view'], roles: ['admin'] };
+    let keyPair: CryptoKeyPair;
+    let jwk: JsonWebKey;
+
+    const sign = async (payload: object, kid: string = 'key-1') => {
+      const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(payload)}`;
+      const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', keyPair.privateKey, new TextEncoder().encode(signingInput));
+      return `${signingInput}.${Buffer.from(signature).toString('base64url')}`;
+    };
+
+    beforeAll(async () => {
+      keyPair = await crypto.subtle.generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        true,
+        ['sign', 'verify']
+      );
+      jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    });
+
+    beforeEach(() => {
+      client = new IAMClient({
+        baseUrl: 'http://localhost:8000/api/v1',
+        jwtVerification: { issuer: 'https://iam.adamus.test', audience: 'hr-portal' },
+      });
+    });
+
+    const claims = (overrides: object = {}) => ({
+      iss: 'https://iam.adamus.test',
+      aud: 'hr-portal',
+      exp: Math.floor(Date.now() / 1000) + 300,
+      ...identity,
+      ...overrides,
+    });
+
+    it('should verify signed tokens without calling /auth/me', async () => {
+      const requests = mockHttp(client, () => ({ status: 200, data: { keys: [{ ...jwk, kid: 'key-1', alg: 'RS256' }] } }));
+
+      const result = await client.verifyToken(await sign(claims()));
+      expect(result).toEqual(identity);
+      expect(requests.map((r) => r.url)).toEqual(['/.well-known/jwks.json']);
+    });
+
+    it('should reject expired tokens and wrong audiences', async () => {
+      mockHttp(client, () => ({ status: 200, data: { keys: [{ ...jwk, kid: 'key-1' }] } }));
+
+      await expect(client.verifyToken(await sign(claims({ exp: Math.floor(Date.now() / 1000) - 10 }))))
+        .rejects.toThrow('Token has expired');
+      await expect(client.verifyToken(await sign(claims({ aud: 'other-app' }))))
+        .rejects.toThrow('Invalid token audience');
+      const tampered = (await sign(claims())).replace(/\.[^.]+\./, `.${encode(claims({ permissions: ['*'] }))}.`);
+      await expect(client.verifyToken(tampered)).rejects.toBeInstanceOf(IAMAuthenticationError);
+    });
+
+    it('should fall back to /auth/me when claims lack the identity', async () => {
+      const requests = mockHttp(client, (config) =>
+        config.url === '/auth/me'
+          ? { status: 200, data: identity }
+          : { status: 200, data: { keys: [{ ...jwk, kid: 'key-1' }] } }
+      );
+
+      const result = await client.verifyToken(await sign({ iss: 'https://iam.adamus.test', aud: 'hr-portal', sub: '7' }));
+      expect(result).toEqual(identity);
+      expect(requests.map((r) => r.url)).toEqual(['/.well-known/jwks.json', '/auth/me']);
+    });
+  });
+
+  describe('local permission checks', () => {
+    it('should answer from the cached identity', async () => {
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', permissionCheckMode: 'local' });
+      client.setToken('token');
+      const requests = mockHttp(client, () => ({
+        status: 200,
+        data: {
+          user: { id: 1, name: 'Yaw', email: 'yaw@example.com', roles: [{ id: 2, name: 'hr-manager' }] },
+          permissions: ['users.*'],
+          roles: ['staff'],
+        },
+      }));
+
+      expect(await client.hasPermission('users.edit')).toBe(true);
+      expect(await client.hasPermission('departments.edit')).toBe(false);
+      expect(await client.hasRole('staff')).toBe(true);
+      expect(await client.hasRole('hr-manager')).toBe(true);
+      expect(await client.hasRole('admin')).toBe(false);
+      expect(requests.map((r) => r.url)).toEqual(['/auth/me']);
+    });
+  });
+
+  describe('batch permission checks', () => {
+    beforeEach(() => {
+      client.setToken('token');
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should answer every check from one verification in local mode', async () => {
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', permissionCheckMode: 'local' });
+      client.setToken('token');
+      const requests = mockHttp(client, () => ({
+        status: 200,
+        data: { user: { id: 1, name: 'Abena', email: 'abena@example.com' }, permissions: ['users.view', 'departments.*'], roles: ['hr'] },
+      }));
+
+      expect(await client.checkPermissions(['users.view', 'users.delete', 'departments.edit'])).toEqual({
+        'users.view': true,
+        'users.delete': false,
+        'departments.edit': true,
+      });
+      expect(await client.hasAnyPermission(['users.delete', 'users.view'])).toBe(true);
+      expect(await client.hasAllPermissions(['users.delete', 'users.view'])).toBe(false);
+      expect(await client.hasAnyRole(['admin', 'hr'])).toBe(true);
+      expect(await client.hasAllRoles(['admin', 'hr'])).toBe(false);
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should ask the IAM about each item in remote mode, like the single checks', async () => {
+      // A super-admin bypass on the server grants permissions missing from the user's list
+      const requests = mockHttp(client, (config) => ({
+        status: 200,
+        data: config.url === '/auth/check-permission' ? { has_permission: true } : { has_role: JSON.parse(config.data).role === 'hr' },
+      }));
+
+      expect(await client.hasPermission('users.delete')).toBe(true);
+      expect(await client.hasAnyPermission(['users.delete'])).toBe(true);
+      expect(await client.checkPermissions(['users.view', 'users.delete'])).toEqual({ 'users.view': true, 'users.delete': true });
+      expect(await client.hasAnyRole(['admin', 'hr'])).toBe(true);
+      expect(await client.hasAllRoles(['admin', 'hr'])).toBe(false);
+      expect(requests.map((r) => r.url)).not.toContain('/auth/me');
+    });
+
+    it('should deny everything when verification fails', async () => {
+      mockHttp(client, () => ({ status: 401, data: { message: 'Unauthenticated.' } }));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      expect(await client.checkPermissions(['users.view'])).toEqual({ 'users.view': false });
+      expect(await client.hasAllRoles([])).toBe(true);
+      expect(await client.hasAnyRole(['admin'])).toBe(false);
+    });
+  });
+
+  describe('response validation', () => {
+    const department = { id: 3, name: 'Finance' };
+
+    it('should not check responses by default', async () => {
+      mockHttp(client, () => ({ status: 200, data: { data: { id: 3 } } }));
+      await expect(client.getDepartment(3)).resolves.toEqual({ id: 3 });
+    });
+
+    it('should throw IAMSchemaError in strict mode', async () => {
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', responseValidation: 'strict' });
+      mockHttp(client, (config) => ({
+        status: 200,
+        data: config.url === '/departments' ? { data: [department, { id: 4, name: null }] } : { data: department },
+      }));
+
+      await expect(client.getDepartment(3)).resolves.toEqual(department);
+      const error = await client.getDepartments().catch((e) => e);
+      expect(error).toBeInstanceOf(IAMSchemaError);
+      expect(error.schema).toBe('PaginatedResponse<Department>');
+      expect(error.issues).toEqual([{ path: 'data[1].name', expected: 'string', received: 'null' }]);
+    });
+
+    it('should report drift and still return the data in report mode', async () => {
+      const onSchemaDrift = jest.fn();
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', responseValidation: 'report', onSchemaDrift });
+      const user = { id: 1, name: 'Ama', email: 'ama@example.com', departments: department };
+      mockHttp(client, () => ({ status: 200, data: { data: user } }));
+
+      await expect(client.getUser(1)).resolves.toEqual(user);
+      expect(onSchemaDrift).toHaveBeenCalledWith({
+        schema: 'User',
+        operation: 'getUser',
+        issues: [{ path: 'departments', expected: 'Department[]', received: 'object' }],
+        data: user,
+      });
+    });
+  });
+
+  describe('role and permission management', () => {
+    const admin = { id: 2, name: 'admin', permissions: [{ id: 1, name: 'users.view' }] };
+    const user = { id: 1, name: 'Ama', email: 'ama@example.com', roles: [admin] };
+
+    it('should manage a user\'s roles by ID or name', async () => {
+      const requests = mockHttp(client, () => ({ status: 200, data: { data: user, message: 'Roles updated' } }));
+
+      await expect(client.assignRole(1, 'admin')).resolves.toEqual(user);
+      await client.revokeRole(1, 'hr manager');
+      await client.syncUserRoles(1, [2, 'auditor']);
+
+      expect(requests.map((r) => [r.method, r.url, r.data && JSON.parse(r.data)])).toEqual([
+        ['post', '/users/1/roles', { role: 'admin' }],
+        ['delete', '/users/1/roles/hr%20manager', undefined],
+        ['put', '/users/1/roles', { roles: [2, 'auditor'] }],
+      ]);
+    });
+
+    it('should sync permissions and list roles, permissions and role members', async () => {
+      const requests = mockHttp(client, (config) => {
+        switch (config.url) {
+          case '/roles':
+            return { status: 200, data: { data: [admin], current_page: 1, per_page: 15, total: 1, last_page: 1 } };
+          case '/roles/2/users':
+            return { status: 200, data: { data: [user] } };
+          case '/permissions':
+            return { status: 200, data: { data: admin.permissions } };
+          default:
+            return { status: 200, data: { data: admin } };
+        }
+      });
+
+      await expect(client.syncRolePermissions(2, ['users.view'])).resolves.toEqual(admin);
+      await expect(client.getRoles({ include: ['permissions'] })).resolves.toMatchObject({ data: [admin], total: 1 });
+      await expect(client.getUsersByRole(2)).resolves.toEqual([user]);
+      await expect(client.iteratePermissions().toArray()).resolves.toEqual(admin.permissions);
+
+      expect(requests[0].method).toBe('put');
+      expect(JSON.parse(requests[0].data)).toEqual({ permissions: ['users.view'] });
+      expect(requests[1].params).toEqual({ include: 'permissions' });
+    });
+
+    it('should map failures like the other management methods', async () => {
+      mockHttp(client, () => ({ status: 422, data: { message: 'The name has already been taken.', errors: { name: ['The name has already been taken.'] } } }));
+
+      const error = await client.createRole({ name: 'admin' }).catch((e) => e);
+      expect(error).toBeInstanceOf(IAMValidationError);
+      expect(error.getFieldError('name')).toBe('The name has already been taken.');
+    });
+  });
+
+  describe('password reset', () => {
+    it('should start email and phone resets', async () => {
+      const requests = mockHttp(client, () => ({ status: 200, data: { message: 'Reset started', expires_at: '2025-01-01T00:05:00Z' } }));
+
+      await client.requestPasswordReset({ email: 'ama@example.com' });
+      await expect(client.requestPasswordReset({ phone: '0248048753' })).resolves.toMatchObject({ message: 'Reset started' });
+
+      expect(requests.map((r) => [r.url, JSON.parse(r.data)])).toEqual([
+        ['/auth/forgot-password', { email: 'ama@example.com' }],
+        ['/auth/send-otp', { phone: '0248048753', purpose: 'password_reset' }],
+      ]);
+    });
+
+    it('should verify the OTP and reset with the returned token', async () => {
+      const requests = mockHttp(client, (config) => ({
+        status: 200,
+        data: config.url === '/auth/verify-reset-otp' ? { message: 'OTP verified', reset_token: 'reset-1' } : { message: 'Password reset' },
+      }));
+
+      const { reset_token } = await client.verifyPasswordResetOtp('0248048753', '1234');
+      await client.resetPassword({ phone: '0248048753', token: reset_token, password: 'n3w-Passw0rd' });
+      await client.changePassword('old-pass', 'n3w-Passw0rd');
+
+      expect(JSON.parse(requests[1].data)).toEqual({
+        phone: '0248048753',
+        token: 'reset-1',
+        password: 'n3w-Passw0rd',
+        password_confirmation: 'n3w-Passw0rd',
+      });
+      expect(JSON.parse(requests[2].data)).toEqual({
+        current_password: 'old-pass',
+        password: 'n3w-Passw0rd',
+        password_confirmation: 'n3w-Passw0rd',
+      });
+    });
+
+    it('should surface the first field error', async () => {
+      mockHttp(client, () => ({
+        status: 422,
+        data: {
+          message: 'The given data was invalid.',
+          errors: { current_password: ['The current password is incorrect.'], password: ['Too short.'] },
+        },
+      }));
+
+      const error = await client.changePassword('wrong', 'short').catch((e) => e);
+      expect(error).toBeInstanceOf(IAMValidationError);
+      expect(error.message).toBe('The current password is incorrect.');
+      expect(error.getFieldError('password')).toBe('Too short.');
+    });
+  });
+
+  describe('session mode', () => {
+    const me = { user: { id: 1, name: 'Ama', email: 'ama@example.com' }, permissions: [], roles: [] };
+
+    it('should verify sessions through the configured client', async () => {
+      client = new IAMClient({
+        baseUrl: 'http://localhost:8000/api/v1',
+        session: { cookieName: 'iam_session', endpoint: '/session/me' },
+      });
+      client.setToken('own-token');
+      const requests = mockHttp(client, () => ({ status: 200, data: me }));
+
+      await client.verifySession('abc=');
+
+      expect(requests[0].url).toBe('/session/me');
+      expect(requests[0].headers.Cookie).toBe('iam_session=abc%3D');
+      expect(requests[0].headers.Authorization).toBeUndefined();
+    });
+
+    it('should forward the cookie jar and CSRF header from withSession()', async () => {
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', serverMode: true });
+      const requests = mockHttp(client, () => ({ status: 200, data: me }));
+
+      const scoped = client.withSession('laravel_session=abc; XSRF-TOKEN=csrf%3D; remember_web=r1');
+      await scoped.verifySession();
+      await scoped.updateUser(1, { name: 'Ama' });
+
+      expect(requests[0].headers.Cookie).toBe('laravel_session=abc; XSRF-TOKEN=csrf%3D; remember_web=r1');
+      expect(requests[1].headers['X-XSRF-TOKEN']).toBe('csrf=');
+      expect(requests[1].headers.Authorization).toBeUndefined();
+    });
+
+    it('should forward encoded session cookies unchanged', async () => {
+      const header = 'laravel_session=eyJpdiI6Ik1%2BcS%2Fx%2BZz09%3D%3D; XSRF-TOKEN=a%2Bb%3D';
+      expect(serializeCookies(parseCookies(header))).toBe(header);
+
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', serverMode: true });
+      const requests = mockHttp(client, () => ({ status: 200, data: me }));
+      await client.withSession(header).verifySession();
+
+      expect(requests[0].headers.Cookie).toBe(header);
+    });
+
+    it('should not fall back to the shared token with an empty cookie jar', async () => {
+      client.setToken('service-token');
+      const requests = mockHttp(client, () => ({ status: 200, data: { data: [] } }));
+
+      await client.withSession('').getUsers();
+      await client.withSession({}).getUsers();
+
+      expect(requests.map((r) => r.headers.Authorization)).toEqual([undefined, undefined]);
+    });
+
+    it('should run the CSRF handshake against the IAM host root', async () => {
+      client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+      const requests = mockHttp(client, () => ({
+        status: 204,
+        headers: { 'set-cookie': ['XSRF-TOKEN=new%3D; path=/', 'laravel_session=fresh; path=/; httponly'] },
+      }));
+
+      const jar = await client.csrfCookie({ theme: 'dark' });
+
+      expect(requests[0].url).toBe('http://localhost:8000/sanctum/csrf-cookie');
+      expect(requests[0].headers.Cookie).toBe('theme=dark');
+      expect(jar).toEqual({ theme: 'dark', 'XSRF-TOKEN': 'new=', laravel_session: 'fresh' });
+    });
+
+    it('should send cookies cross-origin when withCredentials is set', () => {
+      client = new IAMClient({ baseUrl: 'https://iam.example.com/api/v1', withCredentials: true });
+      const defaults = (client as any).client.defaults;
+      expect(defaults.withCredentials).toBe(true);
+      expect(defaults.withXSRFToken).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,123 @@
+import { IAMClient } from '../IAMClient';
+import { toPaginatedResponse, unwrapCollection, unwrapResource } from '../envelope';
+
+describe('unwrapResource', () => {
+  it('should unwrap JsonResource envelopes', () => {
+    expect(unwrapResource({ data: { id: 1, name: 'Ama' } })).toEqual({ id: 1, name: 'Ama' });
+    expect(unwrapResource({ data: { id: 'p1', phone: '0248048753' }, message: 'Phone number added' })).toEqual({
+      id: 'p1',
+      phone: '0248048753',
+    });
+  });
+
+  it('should leave bare resources alone', () => {
+    const login = { access_token: 't', token_type: 'Bearer', expires_in: 3600, user: { id: 1 } };
+    expect(unwrapResource(login)).toBe(login);
+    // A `data` attribute next to other fields belongs to the resource
+    expect(unwrapResource({ id: 1, data: { theme: 'dark' } })).toEqual({ id: 1, data: { theme: 'dark' } });
+    expect(unwrapResource({ data: [1, 2] })).toEqual({ data: [1, 2] });
+  });
+});
+
+describe('unwrapCollection', () => {
+  it('should accept arrays, collection envelopes and paginator pages', () => {
+    expect(unwrapCollection([1, 2])).toEqual([1, 2]);
+    expect(unwrapCollection({ data: [1, 2] })).toEqual([1, 2]);
+    expect(unwrapCollection({ data: [1, 2], current_page: 1, last_page: 3 })).toEqual([1, 2]);
+    expect(unwrapCollection('')).toEqual([]);
+  });
+});
+
+describe('toPaginatedResponse', () => {
+  it('should normalize the plain Laravel paginator', () => {
+    const page = toPaginatedResponse({
+      current_page: 2,
+      data: [{ id: 3 }, { id: 4 }],
+      first_page_url: 'https://iam.test/api/v1/users?page=1',
+      from: 3,
+      last_page: 3,
+      last_page_url: 'https://iam.test/api/v1/users?page=3',
+      links: [{ url: null, label: '&laquo; Previous', active: false }],
+      next_page_url: 'https://iam.test/api/v1/users?page=3',
+      path: 'https://iam.test/api/v1/users',
+      per_page: 2,
+      prev_page_url: 'https://iam.test/api/v1/users?page=1',
+      to: 4,
+      total: 5,
+    });
+
+    expect(page).toEqual({
+      data: [{ id: 3 }, { id: 4 }],
+      current_page: 2,
+      per_page: 2,
+      total: 5,
+      last_page: 3,
+      links: {
+        first: 'https://iam.test/api/v1/users?page=1',
+        last: 'https://iam.test/api/v1/users?page=3',
+        prev: 'https://iam.test/api/v1/users?page=1',
+        next: 'https://iam.test/api/v1/users?page=3',
+      },
+      meta: {
+        current_page: 2,
+        from: 3,
+        to: 4,
+        per_page: 2,
+        total: 5,
+        last_page: 3,
+        path: 'https://iam.test/api/v1/users',
+        links: [{ url: null, label: '&laquo; Previous', active: false }],
+      },
+    });
+  });
+
+  it('should normalize paginated resource collections', () => {
+    const page = toPaginatedResponse({
+      data: [{ id: 1 }],
+      links: { first: '/users?page=1', last: '/users?page=4', prev: null, next: '/users?page=2' },
+      meta: { current_page: 1, from: 1, last_page: 4, links: [], path: '/users', per_page: '1', to: 1, total: 4 },
+    });
+
+    expect(page).toMatchObject({ data: [{ id: 1 }], current_page: 1, per_page: 1, total: 4, last_page: 4 });
+    expect(page.links).toEqual({ first: '/users?page=1', last: '/users?page=4', prev: null, next: '/users?page=2' });
+    expect(page.meta).toMatchObject({ from: 1, to: 1, path: '/users' });
+  });
+
+  it('should treat unpaginated collections as a single page', () => {
+    expect(toPaginatedResponse({ data: ['a', 'b'] })).toMatchObject({
+      data: ['a', 'b'],
+      current_page: 1,
+      per_page: 2,
+      total: 2,
+      last_page: 1,
+      links: { first: null, last: null, prev: null, next: null },
+      meta: { from: 1, to: 2, path: null, links: [] },
+    });
+    expect(toPaginatedResponse([])).toMatchObject({ data: [], total: 0, last_page: 1, meta: { from: null, to: null } });
+  });
+});
+
+describe('IAMClient response envelopes', () => {
+  const client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+  const replies: Record<string, unknown> = {
+    '/departments/7': { data: { id: 7, name: 'Finance' } },
+    '/departments/7/users': { data: [{ id: 1, name: 'Ama' }] },
+    '/positions': { data: [{ id: 2, title: 'Analyst' }], links: {}, meta: { current_page: 1, last_page: 1, per_page: 15, total: 1 } },
+  };
+
+  beforeAll(() => {
+    (client as any).client.defaults.adapter = async (config: any) => ({
+      data: replies[config.url],
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    });
+  });
+
+  it('should unwrap every kind of response the same way', async () => {
+    await expect(client.getDepartment(7)).resolves.toEqual({ id: 7, name: 'Finance' });
+    await expect(client.getUsersByDepartment(7)).resolves.toEqual([{ id: 1, name: 'Ama' }]);
+    await expect(client.getPositions()).resolves.toMatchObject({ data: [{ id: 2, title: 'Analyst' }], total: 1, last_page: 1 });
+  });
+});
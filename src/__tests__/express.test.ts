@@ -0,0 +1,153 @@
+import type { Request, Response } from 'express';
+import { IAMClient } from '../IAMClient';
+import { IAMAuthenticationError, IAMError, IAMNetworkError, IAMRateLimitError } from '../errors';
+import { createIAMMiddleware } from '../express';
+import { definePolicy } from '../policy';
+
+const identity = {
+  user: { id: 1, name: 'Kojo', email: 'kojo@example.com' },
+  permissions: ['users.view', 'users.create'],
+  roles: ['hr'],
+};
+
+const mockRequest = (headers: Record<string, string> = {}, query: Record<string, string> = {}) =>
+  ({
+    query,
+    get: (name: string) => headers[name.toLowerCase()],
+  }) as unknown as Request;
+
+const mockResponse = () => {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res as Response & { status: jest.Mock; json: jest.Mock };
+};
+
+describe('express middleware', () => {
+  let client: IAMClient;
+  let verifyToken: jest.SpyInstance;
+
+  beforeEach(() => {
+    client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+    verifyToken = jest.spyOn(client, 'verifyToken').mockImplementation(async (token) => {
+      if (token === 'valid-token') return identity;
+      if (token === 'nested-roles') return { ...identity, roles: [], user: { ...identity.user, roles: [{ id: 1, name: 'finance' }, 'payroll'] as any } };
+      if (token === 'throttled') throw new IAMRateLimitError('Too Many Attempts.', 30);
+      if (token === 'server-error') throw new IAMError('Server Error', { statusCode: 500 });
+      if (token === 'offline') throw new IAMNetworkError('Token verification failed: connect ECONNREFUSED');
+      throw new IAMAuthenticationError('Unauthenticated.');
+    });
+  });
+
+  it('should attach the verified identity to the request', async () => {
+    const iam = createIAMMiddleware({ client });
+    const req = mockRequest({ authorization: 'Bearer valid-token' });
+    const next = jest.fn();
+
+    await iam.authenticate()(req, mockResponse(), next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.iam).toEqual({ ...identity, token: 'valid-token' });
+  });
+
+  it('should respond 401 without a valid token unless optional', async () => {
+    const iam = createIAMMiddleware({ client });
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await iam.authenticate()(mockRequest(), res, next);
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith({ error: 'unauthenticated', message: 'No token provided' });
+
+    await iam.optionalAuthenticate()(mockRequest({ authorization: 'Bearer bad-token' }), mockResponse(), next);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should respond 503 when the IAM service is unreachable', async () => {
+    const iam = createIAMMiddleware({ client });
+    const res = mockResponse();
+
+    await iam.optionalAuthenticate()(mockRequest({ authorization: 'Bearer offline' }), res, jest.fn());
+    expect(res.status).toHaveBeenCalledWith(503);
+  });
+
+  it('should pass IAM throttling on as 429 and server errors as 503', async () => {
+    const iam = createIAMMiddleware({ client });
+    const throttled = mockResponse();
+    const failed = mockResponse();
+    const next = jest.fn();
+
+    await iam.optionalAuthenticate()(mockRequest({ authorization: 'Bearer throttled' }), throttled, next);
+    expect(throttled.status).toHaveBeenCalledWith(429);
+    expect(throttled.json).toHaveBeenCalledWith({ error: 'rate_limited', message: 'Too many authentication attempts' });
+
+    await iam.authenticate()(mockRequest({ authorization: 'Bearer server-error' }), failed, next);
+    expect(failed.status).toHaveBeenCalledWith(503);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should enforce any/all permission combinators', async () => {
+    const iam = createIAMMiddleware({ client });
+    const next = jest.fn();
+    const res = mockResponse();
+
+    await iam.requireAnyPermission(['users.delete', 'users.view'])(mockRequest({ authorization: 'Bearer valid-token' }), res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    await iam.requireAllPermissions(['users.delete', 'users.view'])(mockRequest({ authorization: 'Bearer valid-token' }), res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'forbidden',
+      message: 'Insufficient permissions',
+      required: ['users.delete', 'users.view'],
+    });
+  });
+
+  it('should read tokens from the configured sources and format errors', async () => {
+    const iam = createIAMMiddleware({
+      client,
+      tokenSources: [{ cookie: 'iam_token' }, { query: 'access_token' }],
+      formatError: (failure) => ({ success: false, code: failure.status }),
+    });
+    const next = jest.fn();
+
+    await iam.requireRole('hr')(mockRequest({ cookie: 'theme=dark; iam_token=valid-token' }), mockResponse(), next);
+    await iam.requireRole('hr')(mockRequest({}, { access_token: 'valid-token' }), mockResponse(), next);
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(verifyToken).toHaveBeenCalledWith('valid-token');
+
+    const res = mockResponse();
+    await iam.requireRole('admin')(mockRequest({ cookie: 'iam_token=valid-token' }), res, next);
+    expect(res.json).toHaveBeenCalledWith({ success: false, code: 403 });
+  });
+
+  it('should collect user roles sent as objects or plain names', async () => {
+    const iam = createIAMMiddleware({ client });
+    const req = mockRequest({ authorization: 'Bearer nested-roles' });
+    const next = jest.fn();
+
+    await iam.requireAllRoles(['finance', 'payroll'])(req, mockResponse(), next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.iam?.roles).toEqual(['finance', 'payroll']);
+  });
+
+  it('should not let conditional rules through requireAbility() without a loaded resource', async () => {
+    const policy = definePolicy((allow) => {
+      allow('update', 'User', { when: (identity, user) => identity.user.id === user.id });
+      allow('view', 'User', { permission: 'users.view' });
+    });
+    const iam = createIAMMiddleware({ client });
+    const next = jest.fn();
+    const res = mockResponse();
+
+    await iam.requireAbility(policy, 'update', 'User')(mockRequest({ authorization: 'Bearer valid-token' }), res, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+
+    const loadSelf = () => identity.user;
+    await iam.requireAbility(policy, 'update', 'User', loadSelf)(mockRequest({ authorization: 'Bearer valid-token' }), mockResponse(), next);
+    await iam.requireAbility(policy, 'view', 'User')(mockRequest({ authorization: 'Bearer valid-token' }), mockResponse(), next);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
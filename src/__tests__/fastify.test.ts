@@ -0,0 +1,58 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { IAMClient } from '../IAMClient';
+import { IAMAuthenticationError } from '../errors';
+import { iamPlugin } from '../fastify';
+
+describe('fastify plugin', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    const client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+    jest.spyOn(client, 'verifyToken').mockImplementation(async (token) => {
+      if (token !== 'valid-token') throw new IAMAuthenticationError('Unauthenticated.');
+      return { user: { id: 1, name: 'Efua', email: 'efua@example.com' }, permissions: ['users.view'], roles: ['hr'] };
+    });
+
+    app = Fastify();
+    await app.register(iamPlugin, { client });
+    app.get('/public', async (request) => ({ iam: request.iam }));
+    app.get('/me', { preHandler: app.iamAuth() }, async (request) => request.iam!.user);
+    app.get('/users', { config: { permissions: ['users.view'] } }, async () => ({ ok: true }));
+    app.delete('/users', { config: { permissions: ['users.delete'] } }, async () => ({ ok: true }));
+    app.get('/feed', { config: { auth: 'optional' } }, async (request) => ({ user: request.iam?.user.id ?? null }));
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const authorization = { authorization: 'Bearer valid-token' };
+
+  it('should leave unprotected routes alone', async () => {
+    const response = await app.inject({ url: '/public' });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ iam: null });
+  });
+
+  it('should authenticate with the preHandler factory', async () => {
+    expect((await app.inject({ url: '/me' })).statusCode).toBe(401);
+
+    const response = await app.inject({ url: '/me', headers: authorization });
+    expect(response.statusCode).toBe(200);
+    expect(response.json().name).toBe('Efua');
+  });
+
+  it('should enforce route-level permissions', async () => {
+    expect((await app.inject({ url: '/users', headers: authorization })).statusCode).toBe(200);
+
+    const forbidden = await app.inject({ method: 'DELETE', url: '/users', headers: authorization });
+    expect(forbidden.statusCode).toBe(403);
+    expect(forbidden.json()).toEqual({ error: 'forbidden', message: 'Insufficient permissions', required: ['users.delete'] });
+  });
+
+  it('should support optional authentication', async () => {
+    expect((await app.inject({ url: '/feed' })).json()).toEqual({ user: null });
+    expect((await app.inject({ url: '/feed', headers: authorization })).json()).toEqual({ user: 1 });
+  });
+});
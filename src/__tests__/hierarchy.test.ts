@@ -0,0 +1,83 @@
+import { IAMClient } from '../IAMClient';
+import { IAMCycleError, IAMNotFoundError } from '../errors';
+import { HierarchyAccessors, buildTree, findAncestors, findCycles, findDescendants } from '../hierarchy';
+import { Department } from '../types';
+
+const departments: Department[] = [
+  { id: 1, name: 'Head Office', parent_department_id: null },
+  { id: 2, name: 'Operations', parent_department_id: 1 },
+  { id: 3, name: 'Mining', parent_department_id: '2' },
+  { id: 4, name: 'Processing', parent_department_id: 2 },
+  { id: 5, name: 'Pit A', parent_department_id: 3 },
+  { id: 6, name: 'Finance', parent_department_id: 1 },
+];
+
+const accessors: HierarchyAccessors<Department> = {
+  label: 'Department',
+  id: (department) => department.id,
+  parent: (department) => department.parent_department_id,
+};
+
+const names = (items: Department[]) => items.map((item) => item.name);
+
+describe('hierarchy helpers', () => {
+  it('should nest records under their parents', () => {
+    const [root, ...others] = buildTree(departments, accessors);
+
+    expect(others).toEqual([]);
+    expect(names(root.children)).toEqual(['Operations', 'Finance']);
+    expect(names(root.children[0].children)).toEqual(['Mining', 'Processing']);
+    expect(names(root.children[0].children[0].children)).toEqual(['Pit A']);
+  });
+
+  it('should walk ancestors and descendants', () => {
+    expect(names(findAncestors(departments, 5, accessors))).toEqual(['Mining', 'Operations', 'Head Office']);
+    expect(names(findDescendants(departments, 2, accessors))).toEqual(['Mining', 'Processing', 'Pit A']);
+    expect(findAncestors(departments, 1, accessors)).toEqual([]);
+    expect(findDescendants(departments, 99, accessors)).toEqual([]);
+  });
+
+  it('should detect cycles', () => {
+    const looped = departments.map((department) => (department.id === 1 ? { ...department, parent_department_id: 5 } : department));
+
+    expect(findCycles(looped, accessors)).toEqual([[1, 5, 3, 2]]);
+    expect(() => buildTree(looped, accessors)).toThrow('Department hierarchy contains a cycle: 1 → 5 → 3 → 2 → 1');
+    expect(() => findAncestors(looped, 4, accessors)).toThrow(IAMCycleError);
+    expect(() => findDescendants(looped, 3, accessors)).toThrow(IAMCycleError);
+    expect(findCycles([{ id: 7, name: 'Self', parent_department_id: 7 }], accessors)).toEqual([[7]]);
+  });
+});
+
+describe('IAMClient department hierarchy', () => {
+  const client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+  const urls: string[] = [];
+
+  beforeAll(() => {
+    (client as any).client.defaults.adapter = async (config: any) => {
+      urls.push(config.url);
+      const match = /^\/departments\/(\d+)\/users$/.exec(config.url);
+      const data = match
+        ? { data: [{ id: Number(match[1]) * 10, name: `Lead ${match[1]}` }, { id: 1, name: 'Ama' }] }
+        : { data: departments, current_page: 1, per_page: 50, total: departments.length, last_page: 1 };
+      return { data, status: 200, statusText: 'OK', headers: {}, config };
+    };
+  });
+
+  it('should collect every user under a department once', async () => {
+    const users = await client.getUsersInDepartmentTree(2, { concurrency: 2 });
+
+    expect(users.map((user) => user.id)).toEqual([20, 1, 30, 40, 50]);
+    expect(urls.filter((url) => url.endsWith('/users')).sort()).toEqual([
+      '/departments/2/users',
+      '/departments/3/users',
+      '/departments/4/users',
+      '/departments/5/users',
+    ]);
+  });
+
+  it('should build the tree and reject unknown departments', async () => {
+    await expect(client.getDepartmentTree()).resolves.toHaveLength(1);
+    await expect(client.getDepartmentAncestors(4)).resolves.toMatchObject([{ id: 2 }, { id: 1 }]);
+    await expect(client.getDepartmentDescendants(99)).rejects.toThrow(IAMNotFoundError);
+  });
+});
@@ -0,0 +1,110 @@
+import 'reflect-metadata';
+import { ExecutionContext, HttpException, INestApplicationContext } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { IAMClient } from '../IAMClient';
+import { IAMAuthenticationError } from '../errors';
+import { IAMAuthGuard, IAMModule, Permissions, Public, Roles } from '../nestjs';
+
+class UsersController {
+  list() {}
+
+  @Permissions(['users.delete', 'users.view'], 'all')
+  remove() {}
+
+  @Public()
+  health() {}
+}
+
+@Roles('admin')
+class AdminController {
+  settings() {}
+}
+
+describe('NestJS integration', () => {
+  let app: INestApplicationContext;
+  let guard: IAMAuthGuard;
+
+  const identity = { user: { id: 1, name: 'Efua', email: 'efua@example.com' }, permissions: ['users.view'], roles: ['hr'] };
+
+  const httpContext = (request: any, controller: any, handler: string): ExecutionContext =>
+    ({
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => request }),
+      getArgByIndex: () => undefined,
+      getHandler: () => controller.prototype[handler],
+      getClass: () => controller,
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    app = await NestFactory.createApplicationContext(IAMModule.forRoot({ baseUrl: 'http://localhost:8000/api/v1' }), {
+      logger: false,
+    });
+    jest.spyOn(app.get(IAMClient), 'verifyToken').mockImplementation(async (token) => {
+      if (token !== 'valid-token') throw new IAMAuthenticationError('Unauthenticated.');
+      return identity;
+    });
+    guard = app.get(IAMAuthGuard);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const authorized = () => ({ headers: { authorization: 'Bearer valid-token' } });
+
+  const rejection = (promise: Promise<boolean>) => promise.catch((error: HttpException) => error);
+
+  it('should register a server-mode client', () => {
+    expect((app.get(IAMClient) as any).config.serverMode).toBe(true);
+  });
+
+  it('should authenticate and attach the identity to the request', async () => {
+    const request = authorized();
+    await expect(guard.canActivate(httpContext(request, UsersController, 'list'))).resolves.toBe(true);
+    expect((request as any).iam).toMatchObject({ user: identity.user, roles: ['hr'], token: 'valid-token' });
+
+    const error = await rejection(guard.canActivate(httpContext({ headers: {} }, UsersController, 'list')));
+    expect(error).toBeInstanceOf(HttpException);
+    expect((error as HttpException).getStatus()).toBe(401);
+  });
+
+  it('should skip public routes', async () => {
+    await expect(guard.canActivate(httpContext({ headers: {} }, UsersController, 'health'))).resolves.toBe(true);
+  });
+
+  it('should enforce handler and controller requirements', async () => {
+    const forbidden = (await rejection(guard.canActivate(httpContext(authorized(), UsersController, 'remove')))) as HttpException;
+    expect(forbidden.getStatus()).toBe(403);
+    expect(forbidden.getResponse()).toEqual({
+      error: 'forbidden',
+      message: 'Insufficient permissions',
+      required: ['users.delete', 'users.view'],
+    });
+
+    const role = (await rejection(guard.canActivate(httpContext(authorized(), AdminController, 'settings')))) as HttpException;
+    expect(role.getResponse()).toMatchObject({ message: 'Insufficient role', required: ['admin'] });
+  });
+
+  it('should read the request from a GraphQL context', async () => {
+    const request = authorized();
+    const context = {
+      getType: () => 'graphql',
+      getArgByIndex: (index: number) => (index === 2 ? { req: request } : undefined),
+      getHandler: () => UsersController.prototype.list,
+      getClass: () => UsersController,
+    } as unknown as ExecutionContext;
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect((request as any).iam.user.id).toBe(1);
+  });
+
+  it('should resolve async options', async () => {
+    const asyncApp = await NestFactory.createApplicationContext(
+      IAMModule.forRootAsync({ useFactory: async () => ({ baseUrl: 'http://iam.test/api/v1', serverMode: false }) }),
+      { logger: false }
+    );
+    expect((asyncApp.get(IAMClient) as any).config.baseUrl).toBe('http://iam.test/api/v1');
+    expect((asyncApp.get(IAMClient) as any).config.serverMode).toBe(false);
+    await asyncApp.close();
+  });
+});
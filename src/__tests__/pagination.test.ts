@@ -0,0 +1,95 @@
+import { IAMClient } from '../IAMClient';
+import { toPaginatedResponse } from '../envelope';
+import { paginate } from '../pagination';
+import { PaginatedResponse, QueryParams } from '../types';
+
+/**
+ * Fake listing of `total` numbered items, recording the requested params
+ */
+const listing = (total: number, defaultPerPage = 10) => {
+  const calls: QueryParams[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const fetchPage = async (params: QueryParams): Promise<PaginatedResponse<number>> => {
+    calls.push(params);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => setImmediate(resolve));
+    inFlight--;
+
+    const perPage = params.per_page ?? defaultPerPage;
+    const page = params.page ?? 1;
+    const start = (page - 1) * perPage;
+    const data = Array.from({ length: Math.max(0, Math.min(perPage, total - start)) }, (_, i) => start + i + 1);
+    return toPaginatedResponse({ data, current_page: page, per_page: perPage, total, last_page: Math.max(1, Math.ceil(total / perPage)) });
+  };
+
+  return { fetchPage, calls, maxInFlight: () => maxInFlight };
+};
+
+describe('paginate', () => {
+  it('should iterate every item across pages', async () => {
+    const { fetchPage, calls } = listing(25);
+    const items: number[] = [];
+
+    for await (const item of paginate(fetchPage, { search: 'a' })) {
+      items.push(item);
+    }
+
+    expect(items).toEqual(Array.from({ length: 25 }, (_, i) => i + 1));
+    expect(calls).toEqual([
+      { search: 'a', page: 1 },
+      { search: 'a', page: 2 },
+      { search: 'a', page: 3 },
+    ]);
+  });
+
+  it('should iterate pages with a page-size override', async () => {
+    const { fetchPage } = listing(25);
+    const pages: number[][] = [];
+
+    for await (const page of paginate(fetchPage, {}, { pageSize: 20 }).pages()) {
+      pages.push(page.data);
+    }
+
+    expect(pages.map((data) => data.length)).toEqual([20, 5]);
+  });
+
+  it('should stop requesting pages once maxItems is reached', async () => {
+    const { fetchPage, calls } = listing(100);
+
+    const items = await paginate(fetchPage, {}, { maxItems: 15, concurrency: 5 }).toArray();
+
+    expect(items).toHaveLength(15);
+    expect(calls.map((params) => params.page)).toEqual([1, 2]);
+  });
+
+  it('should prefetch pages with bounded concurrency and keep their order', async () => {
+    const { fetchPage, maxInFlight } = listing(100);
+
+    const items = await paginate(fetchPage, {}, { concurrency: 3 }).toArray();
+
+    expect(items).toEqual(Array.from({ length: 100 }, (_, i) => i + 1));
+    expect(maxInFlight()).toBe(3);
+  });
+
+  it('should stop fetching when the consumer breaks early', async () => {
+    const { fetchPage, calls } = listing(100);
+
+    for await (const item of paginate(fetchPage)) {
+      if (item === 3) break;
+    }
+
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should back the client iterators', async () => {
+    const client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+    const { fetchPage, calls } = listing(3);
+    jest.spyOn(client, 'getUsers').mockImplementation(fetchPage as any);
+
+    expect(await client.iterateUsers({ filter: { status: 'active' } }, { pageSize: 2 }).toArray()).toEqual([1, 2, 3]);
+    expect(calls[0]).toEqual({ filter: { status: 'active' }, per_page: 2, page: 1 });
+  });
+});
@@ -0,0 +1,98 @@
+import { IAMClient } from '../IAMClient';
+import { IAMAuthenticationError, IAMNetworkError, IAMRateLimitError } from '../errors';
+import { IAMBearerStrategy, IAMSessionStrategy } from '../passport';
+import { TokenVerificationResponse } from '../types';
+
+/**
+ * Run a strategy the way Passport does, with the augmented success/fail/error actions
+ */
+const run = (strategy: any, req: any) =>
+  new Promise<{ action: string; args: any[] }>((resolve) => {
+    strategy.success = (...args: any[]) => resolve({ action: 'success', args });
+    strategy.fail = (...args: any[]) => resolve({ action: 'fail', args });
+    strategy.error = (...args: any[]) => resolve({ action: 'error', args });
+    strategy.authenticate(req);
+  });
+
+describe('Passport strategies', () => {
+  const identity = {
+    user: { id: 1, name: 'Efua', email: 'efua@example.com', roles: [{ id: 2, name: 'hr' }] },
+    permissions: ['users.view'],
+    roles: [],
+  };
+  let client: IAMClient;
+
+  beforeEach(() => {
+    client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+    const verify = async (credentials?: string | Record<string, string>): Promise<TokenVerificationResponse> => {
+      const credential = typeof credentials === 'string' ? credentials : credentials?.laravel_session;
+      if (credential === 'offline') throw new IAMNetworkError('Token verification failed');
+      if (credential === 'throttled') throw new IAMRateLimitError('Too Many Attempts.');
+      if (credential !== 'valid') throw new IAMAuthenticationError('Unauthenticated.');
+      return identity;
+    };
+    jest.spyOn(client, 'verifyToken').mockImplementation(verify);
+    jest.spyOn(client, 'verifySession').mockImplementation(verify);
+  });
+
+  it('should authenticate bearer tokens as the user with permissions and roles', async () => {
+    const result = await run(new IAMBearerStrategy({ client }), { headers: { authorization: 'Bearer valid' } });
+
+    expect(result.action).toBe('success');
+    const [user, info] = result.args;
+    expect(user).toMatchObject({ id: 1, name: 'Efua', permissions: ['users.view'], role_names: ['hr'] });
+    expect(info).toMatchObject({ token: 'valid', roles: ['hr'] });
+  });
+
+  it('should fail with a challenge for missing or invalid tokens', async () => {
+    const strategy = new IAMBearerStrategy({ client });
+
+    expect(await run(strategy, { headers: {} })).toEqual({ action: 'fail', args: ['Bearer realm="IAM"', 401] });
+    expect((await run(strategy, { headers: { authorization: 'Bearer expired' } })).args).toEqual([
+      'Bearer realm="IAM", error="invalid_token"',
+      401,
+    ]);
+  });
+
+  it('should report an unreachable or throttling IAM service as an error', async () => {
+    const result = await run(new IAMBearerStrategy({ client }), { headers: { authorization: 'Bearer offline' } });
+    expect(result.action).toBe('error');
+    expect(result.args[0]).toBeInstanceOf(IAMNetworkError);
+
+    const throttled = await run(new IAMBearerStrategy({ client }), { headers: { authorization: 'Bearer throttled' } });
+    expect(throttled.action).toBe('error');
+    expect(throttled.args[0]).toBeInstanceOf(IAMRateLimitError);
+  });
+
+  it('should authenticate the laravel_session cookie', async () => {
+    const strategy = new IAMSessionStrategy({ client, mapUser: ({ user, roles }) => ({ id: user.id, roles }) });
+    expect(strategy.name).toBe('iam-session');
+
+    const result = await run(strategy, { headers: { cookie: 'laravel_session=valid' } });
+    expect(result.args[0]).toEqual({ id: 1, roles: ['hr'] });
+    expect(client.verifySession).toHaveBeenCalledWith({ laravel_session: 'valid' });
+
+    expect((await run(strategy, { headers: {} })).action).toBe('fail');
+  });
+
+  it('should read the session cookie named in the client config', async () => {
+    const custom = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', session: { cookieName: 'hr_session' } });
+    jest.spyOn(custom, 'verifySession').mockResolvedValue(identity);
+
+    const result = await run(new IAMSessionStrategy({ client: custom }), { headers: { cookie: 'hr_session=valid' } });
+    expect(result.action).toBe('success');
+    expect(custom.verifySession).toHaveBeenCalledWith({ hr_session: 'valid' });
+  });
+
+  it('should report a throwing mapUser as an error', async () => {
+    const mapError = new Error('Unknown department');
+    const strategy = new IAMBearerStrategy({
+      client,
+      mapUser: () => {
+        throw mapError;
+      },
+    });
+
+    expect(await run(strategy, { headers: { authorization: 'Bearer valid' } })).toEqual({ action: 'error', args: [mapError] });
+  });
+});
@@ -0,0 +1,43 @@
+import { collectRoleNames, hasPermissionIn, matchesPermission } from '../permissions';
+
+describe('permissions', () => {
+  describe('matchesPermission', () => {
+    it('should match exact permissions', () => {
+      expect(matchesPermission('users.view', 'users.view')).toBe(true);
+      expect(matchesPermission('users.view', 'users.edit')).toBe(false);
+    });
+
+    it('should treat * as a global grant', () => {
+      expect(matchesPermission('*', 'departments.delete')).toBe(true);
+    });
+
+    it('should match trailing wildcards against any remainder', () => {
+      expect(matchesPermission('users.*', 'users.create')).toBe(true);
+      expect(matchesPermission('users.*', 'users.phone.edit')).toBe(true);
+      expect(matchesPermission('users.*', 'users')).toBe(false);
+      expect(matchesPermission('users.*', 'positions.create')).toBe(false);
+    });
+
+    it('should match inner wildcards against a single segment', () => {
+      expect(matchesPermission('*.view', 'users.view')).toBe(true);
+      expect(matchesPermission('*.view', 'users.edit')).toBe(false);
+      expect(matchesPermission('*.view', 'users.phone.view')).toBe(false);
+    });
+  });
+
+  describe('hasPermissionIn', () => {
+    it('should check against every granted permission', () => {
+      expect(hasPermissionIn(['roles.view', 'users.*'], 'users.delete')).toBe(true);
+      expect(hasPermissionIn(['roles.view'], 'users.delete')).toBe(false);
+      expect(hasPermissionIn([], 'users.delete')).toBe(false);
+    });
+  });
+
+  describe('collectRoleNames', () => {
+    it('should accept roles as objects or plain names', () => {
+      const user = { id: 1, name: 'Ama', email: 'ama@example.com', roles: [{ id: 1, name: 'hr' }, 'auditor'] as any };
+      expect(collectRoleNames({ roles: ['admin', 'hr'], user })).toEqual(['admin', 'hr', 'auditor']);
+      expect(collectRoleNames(null)).toEqual([]);
+    });
+  });
+});
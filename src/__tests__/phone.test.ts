@@ -0,0 +1,98 @@
+import { IAMClient } from '../IAMClient';
+import { IAMValidationError } from '../errors';
+import {
+  PhoneCountryRules,
+  getPhoneNumberError,
+  isValidPhoneNumber,
+  parsePhoneNumber,
+  toE164,
+  toLocalPhoneNumber,
+} from '../phone';
+
+describe('phone numbers', () => {
+  it.each(['0248048753', '024 804 8753', '024-804-8753', '+233 24 804 8753', '233248048753', '00233248048753', '+233 (0)24 804 8753', '248048753'])(
+    'should parse %s',
+    (input) => {
+      expect(parsePhoneNumber(input)).toEqual({
+        country: 'GH',
+        nationalNumber: '248048753',
+        local: '0248048753',
+        e164: '+233248048753',
+      });
+    }
+  );
+
+  it('should reject invalid numbers', () => {
+    expect(isValidPhoneNumber('024804875')).toBe(false);
+    expect(isValidPhoneNumber('02480487531')).toBe(false);
+    expect(isValidPhoneNumber('+44 20 7946 0958')).toBe(false);
+    expect(isValidPhoneNumber('0848048753')).toBe(false);
+    expect(isValidPhoneNumber('024804875a')).toBe(false);
+    expect(isValidPhoneNumber('')).toBe(false);
+  });
+
+  it('should word validation messages like the IAM API', () => {
+    expect(getPhoneNumberError('+233 24 804 8753')).toBeNull();
+    expect(getPhoneNumberError('12345')).toBe('The phone must be a valid GH phone number.');
+  });
+
+  it('should convert between formats with other country rules', () => {
+    const nigeria: PhoneCountryRules = {
+      country: 'NG',
+      callingCode: '234',
+      trunkPrefix: '0',
+      nationalNumberLength: 10,
+      nationalNumberPattern: /^[789]\d{9}$/,
+    };
+
+    expect(toE164('0803 123 4567', nigeria)).toBe('+2348031234567');
+    expect(toLocalPhoneNumber('+234 803 123 4567', nigeria)).toBe('08031234567');
+    expect(() => toE164('0248048753', nigeria)).toThrow('The phone must be a valid NG phone number.');
+  });
+});
+
+describe('IAMClient phone normalization', () => {
+  const createClient = (config: Partial<ConstructorParameters<typeof IAMClient>[0]> = {}) => {
+    const client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', ...config });
+    const bodies: any[] = [];
+    (client as any).client.defaults.adapter = async (request: any) => {
+      bodies.push(JSON.parse(request.data));
+      return { data: { message: 'OTP sent', expires_at: '', phone: '' }, status: 200, statusText: 'OK', headers: {}, config: request };
+    };
+    return { client, bodies };
+  };
+
+  it('should send the configured format from every phone method', async () => {
+    const { client, bodies } = createClient();
+
+    await client.sendOtp({ phone: '+233 24 804 8753', purpose: 'login' });
+    await client.verifyPhone('024-804-8753');
+    await client.requestPasswordReset({ phone: '233248048753' });
+    await client.resetPassword({ phone: '+233248048753', otp: '1234', password: 'secret-123' });
+
+    expect(bodies.map((body) => body.phone)).toEqual(['0248048753', '0248048753', '0248048753', '0248048753']);
+
+    const e164 = createClient({ phoneNumbers: { format: 'e164' } });
+    await e164.client.loginWithPhone({ phone: '0248048753', otp: '1234' }).catch(() => undefined);
+    expect(e164.bodies[0].phone).toBe('+233248048753');
+  });
+
+  it('should reject invalid numbers without a request', async () => {
+    const { client, bodies } = createClient();
+
+    const error = await client.addPhoneNumber('12345').catch((e) => e);
+    expect(error).toBeInstanceOf(IAMValidationError);
+    expect(error.getFieldError('phone')).toBe('The phone must be a valid GH phone number.');
+    expect(error.statusCode).toBeUndefined();
+    expect(bodies).toEqual([]);
+  });
+
+  it('should send numbers unchanged when disabled', async () => {
+    const { client, bodies } = createClient({ phoneNumbers: false });
+
+    await client.sendOtp({ phone: '+44 20 7946 0958' });
+    expect(bodies[0].phone).toBe('+44 20 7946 0958');
+    expect(client.parsePhoneNumber('+44 20 7946 0958')).toBeNull();
+    expect(client.getPhoneNumberError('+44 20 7946 0958')).toBeNull();
+  });
+});
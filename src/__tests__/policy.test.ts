@@ -0,0 +1,70 @@
+import { IAMForbiddenError } from '../errors';
+import { conditions, definePolicy } from '../policy';
+import { TokenVerificationResponse, User } from '../types';
+
+describe('Policy', () => {
+  const policy = definePolicy((allow, deny) => {
+    allow('update', 'User', { permission: 'users.edit' });
+    allow('update', 'User', { when: conditions.managesUser() });
+    allow(['view', 'update'], 'User', { when: conditions.isSelf() });
+    allow('manage', 'UserPhoneNumber', { when: conditions.isOwner('user_id') });
+    allow('manage', 'all', { role: 'super-admin' });
+    deny('delete', 'User', { when: conditions.isSelf() });
+  });
+
+  const identity = (user: Partial<User>, permissions: string[] = [], roles: string[] = []): TokenVerificationResponse => ({
+    user: { id: 1, name: 'Kwame', email: 'kwame@example.com', ...user },
+    permissions,
+    roles,
+  });
+
+  const colleague: User = { id: 2, name: 'Akosua', email: 'akosua@example.com', department_id: 10 };
+  const outsider: User = { id: 3, name: 'Yaa', email: 'yaa@example.com', department_id: 20 };
+
+  it('should grant from permission strings', () => {
+    const ability = policy.for(identity({}, ['users.*']));
+    expect(ability.can('update', 'User', outsider)).toBe(true);
+    expect(ability.can('delete', 'User', outsider)).toBe(false);
+  });
+
+  it('should let managers update users in their own department', () => {
+    const manager = identity({ department_id: 10, department: { id: 10, name: 'Operations', manager_id: 1 } });
+    const ability = policy.for(manager);
+    expect(ability.can('update', 'User', colleague)).toBe(true);
+    expect(ability.can('update', 'User', outsider)).toBe(false);
+  });
+
+  it('should let users manage their own phone numbers', () => {
+    const ability = policy.for(identity({}));
+    const own = { id: 'a', user_id: '1', phone: '0248048753', is_primary: true, is_verified: true, created_at: '', updated_at: '' };
+    expect(ability.can('update', 'UserPhoneNumber', own)).toBe(true);
+    expect(ability.can('update', 'UserPhoneNumber', { ...own, user_id: '2' })).toBe(false);
+  });
+
+  it('should let deny rules win and skip conditions without a resource', () => {
+    const ability = policy.for(identity({}, [], ['super-admin']));
+    expect(ability.can('delete', 'User', outsider)).toBe(true);
+    expect(ability.can('delete', 'User', { ...outsider, id: 1 })).toBe(false);
+    expect(ability.can('delete', 'User')).toBe(true);
+  });
+
+  it('should read user roles sent as objects or plain names', () => {
+    const asObject = identity({ roles: [{ id: 1, name: 'super-admin' }] });
+    const asName = identity({ roles: ['super-admin'] as any });
+    expect(policy.for(asObject).can('delete', 'Department')).toBe(true);
+    expect(policy.for(asName).can('delete', 'Department')).toBe(true);
+  });
+
+  it('should only count unconditional rules in canWithoutConditions()', () => {
+    expect(policy.for(identity({})).can('update', 'User')).toBe(true);
+    expect(policy.for(identity({})).canWithoutConditions('update', 'User')).toBe(false);
+    expect(policy.for(identity({}, ['users.edit'])).canWithoutConditions('update', 'User')).toBe(true);
+    expect(policy.for(identity({}, [], ['super-admin'])).canWithoutConditions('delete', 'User')).toBe(true);
+  });
+
+  it('should deny everything without an identity', () => {
+    const ability = policy.for(null);
+    expect(ability.can('view', 'User', colleague)).toBe(false);
+    expect(() => ability.assert('view', 'User', colleague)).toThrow(IAMForbiddenError);
+  });
+});
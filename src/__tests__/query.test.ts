@@ -0,0 +1,42 @@
+import axios from 'axios';
+import { IAMClient } from '../IAMClient';
+import { buildQueryParams } from '../query';
+
+describe('buildQueryParams', () => {
+  it('should serialize filters, sorts and includes the Laravel way', () => {
+    expect(
+      buildQueryParams({
+        page: 2,
+        search: 'ama',
+        filter: { status: 'active', department_id: [3, 4], company: undefined },
+        sort: ['-date_employed', 'name'],
+        include: ['roles', 'department'],
+      })
+    ).toEqual({
+      page: 2,
+      search: 'ama',
+      'filter[status]': 'active',
+      'filter[department_id]': '3,4',
+      sort: '-date_employed,name',
+      include: 'roles,department',
+    });
+  });
+
+  it('should pass extra params through', () => {
+    expect(buildQueryParams({ sort: 'title', params: { with_trashed: true } })).toEqual({ sort: 'title', with_trashed: true });
+    expect(buildQueryParams()).toEqual({});
+  });
+
+  it('should send the serialized query with list requests', async () => {
+    const client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+    let url = '';
+    (client as any).client.defaults.adapter = async (config: any) => {
+      url = axios.getUri(config);
+      return { data: { data: [], current_page: 1, per_page: 15, total: 0, last_page: 1 }, status: 200, statusText: 'OK', headers: {}, config };
+    };
+
+    await client.getUsers({ filter: { site_location: 'Tarkwa' }, sort: '-name', include: ['roles'] });
+
+    expect(decodeURIComponent(url)).toBe('http://localhost:8000/api/v1/users?filter[site_location]=Tarkwa&sort=-name&include=roles');
+  });
+});
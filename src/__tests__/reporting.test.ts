@@ -0,0 +1,106 @@
+import { IAMClient } from '../IAMClient';
+import { IAMCycleError } from '../errors';
+import { Department, Position, User } from '../types';
+
+const positions: Position[] = [
+  { id: 1, department_id: 10, title: 'Managing Director', reports_to_position_id: null },
+  { id: 2, department_id: 20, title: 'Operations Manager', reports_to_position_id: 1 },
+  { id: 3, department_id: 20, title: 'Shift Supervisor', reports_to_position_id: 2 },
+  { id: 4, department_id: 20, title: 'Operator', reports_to_position_id: 3 },
+  { id: 5, department_id: 20, title: 'Planner', reports_to_position_id: 2 },
+];
+
+const person = (id: number, positionIds: number[], extra: Partial<User> = {}): User => ({
+  id,
+  name: `User ${id}`,
+  email: `user${id}@example.com`,
+  positions: positions.filter((position) => positionIds.includes(Number(position.id))),
+  ...extra,
+});
+
+const users = [
+  person(1, [1]),
+  person(2, [2]),
+  person(3, [3]),
+  person(4, [4]),
+  person(5, [4]),
+  // No position: reports through department managers
+  person(9, [], { department_id: 21 }),
+];
+
+const departments: Department[] = [
+  { id: 10, name: 'Head Office', manager_id: 1, parent_department_id: null },
+  { id: 20, name: 'Operations', manager_id: 2, parent_department_id: 10 },
+  { id: 21, name: 'Workshop', manager_id: 3, parent_department_id: 20 },
+];
+
+const createClient = (positionList: Position[] = positions) => {
+  const client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+  const page = (data: unknown[]) => ({ data, current_page: 1, per_page: 50, total: data.length, last_page: 1 });
+
+  (client as any).client.defaults.adapter = async (config: any) => {
+    const url: string = config.url;
+    let data: unknown;
+    if (url === '/positions') {
+      data = page(positionList);
+    } else if (url === '/departments') {
+      data = page(departments);
+    } else if (/^\/positions\/\d+\/users$/.test(url)) {
+      const id = Number(url.split('/')[2]);
+      data = { data: users.filter((user) => user.positions?.some((position) => position.id === id)) };
+    } else if (/^\/departments\/\d+\/users$/.test(url)) {
+      data = { data: url === '/departments/21/users' ? [users[2], users[5]] : [] };
+    } else {
+      data = { data: users.find((user) => String(user.id) === url.split('/')[2]) };
+    }
+    return { data, status: 200, statusText: 'OK', headers: {}, config };
+  };
+  return client;
+};
+
+const ids = (list: User[]) => list.map((user) => user.id);
+
+describe('reporting lines', () => {
+  it('should walk a user\'s managers up to the top', async () => {
+    const client = createClient();
+
+    expect(ids(await client.getReportingChain(4))).toEqual([3, 2, 1]);
+    expect(ids(await client.getReportingChain(1))).toEqual([]);
+  });
+
+  it('should fall back to department managers for users without a position', async () => {
+    const client = createClient();
+
+    expect(ids(await client.getReportingChain(9))).toEqual([3, 2, 1]);
+  });
+
+  it('should list direct and indirect reports', async () => {
+    const client = createClient();
+
+    expect(ids(await client.getDirectReports(2))).toEqual([3]);
+    expect(ids(await client.getAllReports(2))).toEqual([3, 4, 5]);
+    expect(ids(await client.getAllReports(4))).toEqual([]);
+  });
+
+  it('should export the org chart with position holders', async () => {
+    const [top] = await createClient().getOrgChart();
+
+    expect(top.position.title).toBe('Managing Director');
+    expect(top.position).not.toHaveProperty('children');
+    expect(ids(top.users)).toEqual([1]);
+
+    const [operations] = top.reports;
+    expect(operations.reports.map((node) => [node.position.title, ids(node.users)])).toEqual([
+      ['Shift Supervisor', [3]],
+      ['Planner', []],
+    ]);
+    expect(ids(operations.reports[0].reports[0].users)).toEqual([4, 5]);
+  });
+
+  it('should reject looping reporting lines', async () => {
+    const looped = positions.map((position) => (position.id === 1 ? { ...position, reports_to_position_id: 3 } : position));
+
+    await expect(createClient(looped).getOrgChart()).rejects.toThrow(IAMCycleError);
+    await expect(createClient(looped).getReportingChain(4)).rejects.toThrow('Position hierarchy contains a cycle');
+  });
+});
@@ -0,0 +1,38 @@
+import { listSchema, schemas, validateSchema } from '../schema';
+import { IAMSchemaError } from '../errors';
+
+describe('validateSchema', () => {
+  const user = {
+    id: 1,
+    name: 'Ama Mensah',
+    email: 'ama@example.com',
+    phone: null,
+    roles: ['admin', { id: 2, name: 'hr', permissions: ['users.view', { id: 5, name: 'users.edit' }] }],
+    department: { id: 3, name: 'Finance', parent_department_id: null },
+  };
+
+  it('should accept responses that match, including null optional fields', () => {
+    expect(validateSchema(schemas.user, user)).toEqual([]);
+    expect(validateSchema(listSchema(schemas.user), [user, { ...user, id: 'u-2' }])).toEqual([]);
+  });
+
+  it('should report every mismatch with its path', () => {
+    const drifted = { ...user, email: undefined, department: [{ id: 3, name: 'Finance' }], roles: [{ id: 2 }] };
+
+    expect(validateSchema(schemas.user, drifted)).toEqual([
+      { path: 'email', expected: 'string', received: 'missing' },
+      { path: 'roles[0]', expected: 'string | Role', received: 'object' },
+      { path: 'department', expected: 'Department', received: 'array' },
+    ]);
+    expect(validateSchema(schemas.tokenVerification, { user, permissions: 'users.view' })).toEqual([
+      { path: 'permissions', expected: 'string[]', received: 'string' },
+      { path: 'roles', expected: 'string[]', received: 'missing' },
+    ]);
+  });
+
+  it('should describe the issues in IAMSchemaError', () => {
+    const error = new IAMSchemaError('User', validateSchema(schemas.user, { id: 1, name: 'Ama', email: 42 }));
+    expect(error.message).toBe('Unexpected User response from IAM: email: expected string, received number');
+    expect(error.issues).toHaveLength(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { IAMClient } from '../IAMClient';
+import { IAMAuthenticationError, IAMNetworkError } from '../errors';
+import { createIAMWeb } from '../web';
+
+describe('web adapter', () => {
+  const identity = { user: { id: 1, name: 'Efua', email: 'efua@example.com' }, permissions: ['users.view'], roles: ['hr'] };
+  let client: IAMClient;
+  let web: ReturnType<typeof createIAMWeb>;
+
+  beforeEach(() => {
+    client = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1' });
+    jest.spyOn(client, 'verifyToken').mockImplementation(async (token) => {
+      if (token !== 'valid-token') throw new IAMAuthenticationError('Unauthenticated.');
+      return identity;
+    });
+    jest.spyOn(client, 'verifySession').mockImplementation(async (session) => {
+      if (typeof session !== 'object' || session.laravel_session !== 'valid-session') throw new IAMAuthenticationError('Unauthenticated.');
+      return identity;
+    });
+    web = createIAMWeb({ client });
+  });
+
+  const request = (headers: Record<string, string> = {}) => new Request('http://localhost/api/users', { headers });
+
+  it('should pass the verified identity and extra arguments to the handler', async () => {
+    const handler = web.withIAM(async (req, iam, context: { params: { id: string } }) =>
+      Response.json({ user: iam.user.id, source: iam.source, id: context.params.id })
+    );
+
+    const response = await handler(request({ Authorization: 'Bearer valid-token' }), { params: { id: '7' } });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ user: 1, source: 'token', id: '7' });
+  });
+
+  it('should fall back to the laravel_session cookie', async () => {
+    const handler = web.withIAM(async (req, iam) => Response.json({ source: iam.source, token: iam.token }));
+
+    const response = await handler(request({ Cookie: 'theme=dark; laravel_session=valid-session' }));
+    expect(await response.json()).toEqual({ source: 'session', token: 'valid-session' });
+    expect(client.verifyToken).not.toHaveBeenCalled();
+  });
+
+  it('should default the session cookie to the client session.cookieName', async () => {
+    const custom = new IAMClient({ baseUrl: 'http://localhost:8000/api/v1', session: { cookieName: 'hr_session' } });
+    const verifySession = jest.spyOn(custom, 'verifySession').mockResolvedValue(identity);
+    const handler = createIAMWeb({ client: custom }).withIAM(async (req, iam) => Response.json({ token: iam.token }));
+
+    const response = await handler(request({ Cookie: 'laravel_session=other; hr_session=valid-session' }));
+    expect(await response.json()).toEqual({ token: 'valid-session' });
+    expect(verifySession).toHaveBeenCalledWith({ laravel_session: 'other', hr_session: 'valid-session' });
+  });
+
+  it('should respond 401 and 403 on failure', async () => {
+    const handler = web.withIAM(async () => new Response('ok'), { permissions: 'users.delete' });
+
+    const missing = await handler(request());
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toEqual({ error: 'unauthenticated', message: 'No token provided' });
+
+    expect((await handler(request({ Authorization: 'Bearer expired' }))).status).toBe(401);
+
+    const forbidden = await handler(request({ Authorization: 'Bearer valid-token' }));
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.headers.get('content-type')).toBe('application/json');
+    expect(await forbidden.json()).toEqual({ error: 'forbidden', message: 'Insufficient permissions', required: ['users.delete'] });
+  });
+
+  it('should call optional handlers without an identity but surface outages', async () => {
+    const handler = web.withIAM(async (req, iam) => Response.json({ user: iam?.user.id ?? null }), { optional: true });
+    expect(await (await handler(request())).json()).toEqual({ user: null });
+
+    (client.verifyToken as jest.Mock).mockRejectedValueOnce(new IAMNetworkError('Token verification failed'));
+    expect((await handler(request({ Authorization: 'Bearer valid-token' }))).status).toBe(503);
+  });
+
+  it('should read query tokens from relative request URLs', async () => {
+    web = createIAMWeb({ client, tokenSources: [{ query: 'token' }] });
+    const handler = web.withIAM(async (req, iam) => Response.json({ user: iam.user.id }));
+    const relative = (url: string) => ({ url, headers: new Headers() }) as Request;
+
+    expect((await handler(relative('/api/users?token=valid-token'))).status).toBe(200);
+    expect((await handler(relative('/api/users'))).status).toBe(401);
+  });
+
+  it('should throw the failure response from requireIAM', async () => {
+    await expect(web.requireIAM(request({ Authorization: 'Bearer valid-token' }), { roles: 'hr' })).resolves.toMatchObject({
+      user: identity.user,
+    });
+
+    const thrown = await web.requireIAM(request(), {}).catch((error) => error);
+    expect(thrown).toBeInstanceOf(Response);
+    expect(thrown.status).toBe(401);
+  });
+});
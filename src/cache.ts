@@ -0,0 +1,123 @@
+import { findSubtleCrypto } from './jwt';
+
+/**
+ * Storage backend for cached token verification results
+ */
+export interface CacheStore<T = any> {
+  get(key: string): Promise<T | undefined>;
+  /**
+   * @param ttl - Time to live in milliseconds
+   */
+  set(key: string, value: T, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear?(): Promise<void>;
+}
+
+export interface LRUCacheStoreOptions {
+  /** Maximum number of entries before the least recently used is evicted (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory cache bounded by entry count, evicting the least recently used entry first
+ */
+export class LRUCacheStore<T = any> implements CacheStore<T> {
+  private entries: Map<string, { value: T; expiresAt: number }> = new Map();
+  private maxEntries: number;
+
+  constructor(options: LRUCacheStoreOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 1000);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used (Map keeps insertion order)
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: T, ttl: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Minimal string key/value client, e.g. a thin wrapper around ioredis or node-redis
+ */
+export interface KeyValueClient {
+  get(key: string): Promise<string | null | undefined>;
+  /**
+   * @param ttl - Time to live in milliseconds
+   */
+  set(key: string, value: string, ttl: number): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * Cache store backed by an external key/value service such as Redis
+ * @example
+ * ```typescript
+ * const cacheStore = new KeyValueCacheStore({
+ *   get: (key) => redis.get(key),
+ *   set: (key, value, ttl) => redis.set(key, value, 'PX', ttl),
+ *   del: (key) => redis.del(key),
+ * });
+ * ```
+ */
+export class KeyValueCacheStore<T = any> implements CacheStore<T> {
+  constructor(private client: KeyValueClient, private prefix: string = 'iam:') {}
+
+  async get(key: string): Promise<T | undefined> {
+    const raw = await this.client.get(this.prefix + key);
+    return raw ? JSON.parse(raw) : undefined;
+  }
+
+  async set(key: string, value: T, ttl: number): Promise<void> {
+    await this.client.set(this.prefix + key, JSON.stringify(value), Math.max(1, Math.round(ttl)));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
+
+/**
+ * Derive a cache key from a token so raw bearer tokens are never stored
+ * @returns null without the Web Crypto API, in which case nothing is cached
+ */
+export const hashCacheKey = async (token: string): Promise<string | null> => {
+  const subtle = findSubtleCrypto();
+  if (!subtle) {
+    return null;
+  }
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
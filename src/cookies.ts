@@ -0,0 +1,50 @@
+/**
+ * Parse a `Cookie` header into a name/value map
+ */
+export const parseCookies = (header: string | null | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.substring(0, index).trim();
+    const value = part.substring(index + 1).trim();
+    if (name && !(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        cookies[name] = value;
+      }
+    }
+  }
+  return cookies;
+};
+
+/**
+ * Build a `Cookie` header from a name/value map of decoded values, as returned by parseCookies().
+ * Values are URI-encoded the way PHP sets them, so `parseCookies(serializeCookies(jar))` round-trips
+ */
+export const serializeCookies = (cookies: Record<string, string>): string =>
+  Object.entries(cookies)
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .join('; ');
+
+/**
+ * Read the name/value pairs from `Set-Cookie` response headers
+ */
+export const parseSetCookie = (headers: string | string[] | null | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const header of Array.isArray(headers) ? headers : headers ? [headers] : []) {
+    Object.assign(cookies, parseCookies(header.split(';')[0]));
+  }
+  return cookies;
+};
+
+/**
+ * Read a cookie visible to the current page (null outside the browser)
+ */
+export const readBrowserCookie = (name: string): string | null =>
+  typeof document === 'undefined' ? null : parseCookies(document.cookie)[name] ?? null;
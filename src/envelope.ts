@@ -0,0 +1,90 @@
+import { PaginatedResponse, PaginationLinks, PaginationMeta, PaginationPageLink } from './types';
+
+// Keys Laravel puts next to `data` in a JsonResource response (`additional()`, `with()`, messages)
+const ENVELOPE_KEYS = new Set(['data', 'message', 'status', 'success', 'meta', 'links']);
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' && value !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+const toUrl = (value: unknown): string | null => (typeof value === 'string' && value !== '' ? value : null);
+
+/**
+ * Unwrap a single resource from a Laravel `JsonResource` envelope (`{ data: {...}, message? }`).
+ * Bodies that are not an envelope are returned as they are
+ * @example
+ * ```typescript
+ * unwrapResource<User>({ data: { id: 1, name: 'Ama' }, message: 'User updated' }); // { id: 1, name: 'Ama' }
+ * unwrapResource<User>({ id: 1, name: 'Ama' }); // { id: 1, name: 'Ama' }
+ * ```
+ */
+export const unwrapResource = <T>(body: unknown): T => {
+  if (isRecord(body) && isRecord(body.data) && Object.keys(body).every((key) => ENVELOPE_KEYS.has(key))) {
+    return body.data as T;
+  }
+  return body as T;
+};
+
+/**
+ * Unwrap the items of a collection: a plain array, a `ResourceCollection` (`{ data: [...] }`)
+ * or one page of a paginator. An empty body yields an empty array
+ */
+export const unwrapCollection = <T>(body: unknown): T[] => {
+  if (Array.isArray(body)) {
+    return body;
+  }
+  if (isRecord(body) && Array.isArray(body.data)) {
+    return body.data;
+  }
+  return [];
+};
+
+/**
+ * Normalize one page of a listing. Accepts the plain Laravel paginator (`{ data, current_page, ..., next_page_url }`),
+ * a paginated `ResourceCollection` (`{ data, links: {...}, meta: {...} }`) and unpaginated arrays,
+ * which become a single page
+ */
+export const toPaginatedResponse = <T>(body: unknown): PaginatedResponse<T> => {
+  const data = unwrapCollection<T>(body);
+  const source = isRecord(body) ? body : {};
+  // ResourceCollection moves the paginator fields into `meta`; the plain paginator keeps them at the top level
+  const fields = isRecord(source.meta) ? source.meta : source;
+
+  const currentPage = toNumber(fields.current_page) ?? 1;
+  const perPage = toNumber(fields.per_page) ?? data.length;
+  const total = toNumber(fields.total) ?? (currentPage - 1) * perPage + data.length;
+  const lastPage = toNumber(fields.last_page) ?? currentPage;
+  const from = toNumber(fields.from) ?? (data.length ? (currentPage - 1) * perPage + 1 : null);
+  const to = toNumber(fields.to) ?? (from === null ? null : from + data.length - 1);
+
+  const links: PaginationLinks = isRecord(source.links)
+    ? {
+        first: toUrl(source.links.first),
+        last: toUrl(source.links.last),
+        prev: toUrl(source.links.prev),
+        next: toUrl(source.links.next),
+      }
+    : {
+        first: toUrl(source.first_page_url),
+        last: toUrl(source.last_page_url),
+        prev: toUrl(source.prev_page_url),
+        next: toUrl(source.next_page_url),
+      };
+
+  const meta: PaginationMeta = {
+    current_page: currentPage,
+    from,
+    to,
+    per_page: perPage,
+    total,
+    last_page: lastPage,
+    path: toUrl(fields.path),
+    links: Array.isArray(fields.links) ? (fields.links as PaginationPageLink[]) : [],
+  };
+
+  return { data, current_page: currentPage, per_page: perPage, total, last_page: lastPage, links, meta };
+};
@@ -0,0 +1,229 @@
+import axios, { AxiosError } from 'axios';
+import type { SchemaIssue } from './schema';
+
+/**
+ * Field-level validation messages keyed by field name (Laravel `errors` bag)
+ */
+export type IAMFieldErrors = Record<string, string[]>;
+
+export interface IAMErrorOptions {
+  statusCode?: number;
+  data?: any;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the IAM client
+ */
+export class IAMError extends Error {
+  /** HTTP status returned by the IAM service, if any */
+  readonly statusCode?: number;
+  /** Raw response body returned by the IAM service, if any */
+  readonly data?: any;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: IAMErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = options.statusCode;
+    this.data = options.data;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * 422 - the request payload failed validation
+ */
+export class IAMValidationError extends IAMError {
+  /** Validation messages per field, e.g. `{ phone: ['The phone format is invalid.'] }` */
+  readonly errors: IAMFieldErrors;
+
+  constructor(message: string, errors: IAMFieldErrors = {}, options: IAMErrorOptions = {}) {
+    super(message, { statusCode: 422, ...options });
+    this.errors = errors;
+  }
+
+  /**
+   * Get the first message for a field
+   */
+  getFieldError(field: string): string | undefined {
+    return this.errors[field]?.[0];
+  }
+}
+
+/**
+ * 401 - missing, invalid or expired credentials
+ */
+export class IAMAuthenticationError extends IAMError {
+  constructor(message: string, options: IAMErrorOptions = {}) {
+    super(message, { statusCode: 401, ...options });
+  }
+}
+
+/**
+ * 403 - authenticated but not allowed to perform the action
+ */
+export class IAMForbiddenError extends IAMError {
+  constructor(message: string, options: IAMErrorOptions = {}) {
+    super(message, { statusCode: 403, ...options });
+  }
+}
+
+/**
+ * 404 - the requested resource does not exist
+ */
+export class IAMNotFoundError extends IAMError {
+  constructor(message: string, options: IAMErrorOptions = {}) {
+    super(message, { statusCode: 404, ...options });
+  }
+}
+
+/**
+ * 429 - too many requests (e.g. OTP throttling)
+ */
+export class IAMRateLimitError extends IAMError {
+  /** Seconds to wait before retrying, from the `Retry-After` header */
+  readonly retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number, options: IAMErrorOptions = {}) {
+    super(message, { statusCode: 429, ...options });
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * The IAM service could not be reached (DNS, connection refused, CORS, ...)
+ */
+export class IAMNetworkError extends IAMError {}
+
+/**
+ * The IAM service did not respond within the configured timeout
+ */
+export class IAMTimeoutError extends IAMError {}
+
+/**
+ * A response did not match its schema (`responseValidation: 'strict'`)
+ */
+export class IAMSchemaError extends IAMError {
+  /** Schema the response was checked against, e.g. `User` */
+  readonly schema: string;
+  /** Every mismatch found, e.g. `{ path: 'department', expected: 'Department?', received: 'array' }` */
+  readonly issues: SchemaIssue[];
+
+  constructor(schema: string, issues: SchemaIssue[], options: IAMErrorOptions = {}) {
+    const details = issues.map((issue) => `${issue.path || '(body)'}: expected ${issue.expected}, received ${issue.received}`);
+    super(`Unexpected ${schema} response from IAM: ${details.join('; ')}`, options);
+    this.schema = schema;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Hierarchy data loops back on itself, e.g. a department that is its own ancestor
+ */
+export class IAMCycleError extends IAMError {
+  /** IDs of the records forming the loop, in parent order */
+  readonly cycle: (string | number)[];
+
+  constructor(message: string, cycle: (string | number)[], options: IAMErrorOptions = {}) {
+    super(message, options);
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Normalize the Laravel `errors` bag into arrays of messages
+ */
+const normalizeFieldErrors = (errors: any): IAMFieldErrors => {
+  const normalized: IAMFieldErrors = {};
+  if (errors && typeof errors === 'object') {
+    for (const [field, messages] of Object.entries(errors)) {
+      normalized[field] = (Array.isArray(messages) ? messages : [messages]).map(String);
+    }
+  }
+  return normalized;
+};
+
+const parseRetryAfter = (value: unknown): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds;
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+/**
+ * Convert any thrown value into the matching IAMError subclass
+ * @param error - The caught error (usually an AxiosError)
+ * @param message - Fallback message describing the failed operation
+ * @param preferDetailedMessage - Prefer the first field error over the general message (OTP/auth flows)
+ */
+export const toIAMError = (error: any, message: string, preferDetailedMessage: boolean = false): IAMError => {
+  if (error instanceof IAMError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError;
+    const status = axiosError.response?.status;
+
+    if (!axiosError.response) {
+      if (axiosError.code === AxiosError.ECONNABORTED || axiosError.code === AxiosError.ETIMEDOUT) {
+        return new IAMTimeoutError(`${message}: ${axiosError.message}`, { cause: error });
+      }
+      return new IAMNetworkError(`${message}: ${axiosError.message}`, { cause: error });
+    }
+
+    const errorData: any = axiosError.response.data;
+    let errorMessage = message;
+
+    if (errorData) {
+      // For OTP and auth errors, prefer the detailed field-specific error message
+      if (preferDetailedMessage && errorData.errors) {
+        // Try to get the first field error (usually phone or otp)
+        const firstFieldErrors = Object.values(errorData.errors)[0];
+        if (Array.isArray(firstFieldErrors) && firstFieldErrors.length > 0) {
+          errorMessage = firstFieldErrors[0];
+        }
+      } else if (errorData.message) {
+        // Otherwise use the general message
+        errorMessage = errorData.message;
+      }
+
+      // If we still haven't found a good message, try field errors
+      if (errorMessage === message && errorData.errors) {
+        const fieldErrors = Object.values(errorData.errors)
+          .map((messages: any) => (Array.isArray(messages) ? messages : [messages]).join(', '))
+          .join('; ');
+
+        if (fieldErrors) {
+          errorMessage = fieldErrors;
+        }
+      }
+    } else {
+      errorMessage = `${message}: ${axiosError.message}`;
+    }
+
+    const options: IAMErrorOptions = { statusCode: status, data: errorData, cause: error };
+
+    switch (status) {
+      case 401:
+        return new IAMAuthenticationError(errorMessage, options);
+      case 403:
+        return new IAMForbiddenError(errorMessage, options);
+      case 404:
+        return new IAMNotFoundError(errorMessage, options);
+      case 422:
+        return new IAMValidationError(errorMessage, normalizeFieldErrors(errorData?.errors), options);
+      case 429:
+        return new IAMRateLimitError(errorMessage, parseRetryAfter(axiosError.response.headers?.['retry-after']), options);
+      default:
+        if (status === 400 && errorData?.errors) {
+          return new IAMValidationError(errorMessage, normalizeFieldErrors(errorData.errors), options);
+        }
+        return new IAMError(errorMessage, options);
+    }
+  }
+
+  return new IAMError(`${message}: ${error?.message || 'Unknown error'}`, { cause: error });
+};
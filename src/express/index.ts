@@ -0,0 +1,154 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { IAMClient } from '../IAMClient';
+import { Policy } from '../policy';
+import {
+  AuthFailure,
+  AuthRequirements,
+  ErrorFormatter,
+  IAMRequestContext,
+  RequestAccessors,
+  TokenSource,
+  authenticateRequest,
+  checkRequirements,
+  defaultErrorFormatter,
+  parseCookies,
+  passesOptionalAuth,
+} from '../server';
+
+export type { AuthFailure, AuthRequirements, ErrorFormatter, IAMRequestContext, TokenSource } from '../server';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Verified IAM identity, set by the IAM middleware */
+      iam?: IAMRequestContext;
+    }
+  }
+}
+
+export interface IAMExpressOptions {
+  client: IAMClient;
+  /** Where to read the token from, in order (default: ['header']) */
+  tokenSources?: TokenSource[];
+  /** Build the JSON body for 401/403/429/503 responses */
+  formatError?: ErrorFormatter;
+}
+
+export interface AuthenticateOptions {
+  /** Continue without `req.iam` instead of responding 401 when no valid token is present */
+  optional?: boolean;
+}
+
+/**
+ * Create Express middleware bound to an IAM client
+ * @example
+ * ```typescript
+ * const iam = createIAMMiddleware({ client: iamClient, tokenSources: ['header', { cookie: 'iam_token' }] });
+ *
+ * app.get('/api/me', iam.authenticate(), (req, res) => res.json(req.iam!.user));
+ * app.post('/api/users', iam.requirePermission('users.create'), createUser);
+ * app.delete('/api/users/:id', iam.requireAllPermissions(['users.delete', 'users.view']), deleteUser);
+ * ```
+ */
+export const createIAMMiddleware = (options: IAMExpressOptions) => {
+  const { client, tokenSources = ['header'], formatError = defaultErrorFormatter } = options;
+
+  const reject = (res: Response, failure: AuthFailure) => {
+    res.status(failure.status).json(formatError(failure));
+  };
+
+  const accessors = (req: Request): RequestAccessors => ({
+    header: (name) => req.get(name),
+    cookie: (name) => req.cookies?.[name] ?? parseCookies(req.get('cookie'))[name],
+    query: (name) => {
+      const value = req.query?.[name];
+      return typeof value === 'string' ? value : undefined;
+    },
+  });
+
+  /**
+   * Verify the request's token and set `req.iam`
+   * @returns The failure to respond with, or null when authenticated
+   */
+  const resolve = async (req: Request): Promise<AuthFailure | null> => {
+    if (req.iam) {
+      return null;
+    }
+
+    const { context, failure } = await authenticateRequest(client, accessors(req), { tokenSources });
+    req.iam = context;
+    return failure ?? null;
+  };
+
+  const authenticate = (authOptions: AuthenticateOptions = {}): RequestHandler =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      const failure = await resolve(req);
+      if (failure && !passesOptionalAuth(failure, authOptions.optional)) {
+        return reject(res, failure);
+      }
+      next();
+    };
+
+  /**
+   * Authenticate (if not already done) and check the requirements
+   */
+  const authorize = (requirements: AuthRequirements): RequestHandler =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      const failure = (await resolve(req)) ?? checkRequirements(req.iam!, requirements);
+      if (failure) {
+        return reject(res, failure);
+      }
+      next();
+    };
+
+  return {
+    authenticate,
+    optionalAuthenticate: () => authenticate({ optional: true }),
+    authorize,
+    /** Require a permission, or any of a list of permissions */
+    requirePermission: (permission: string | string[]) => authorize({ permissions: permission }),
+    requireAnyPermission: (permissions: string[]) => authorize({ permissions, mode: 'any' }),
+    requireAllPermissions: (permissions: string[]) => authorize({ permissions, mode: 'all' }),
+    /** Require a role, or any of a list of roles */
+    requireRole: (role: string | string[]) => authorize({ roles: role }),
+    requireAnyRole: (roles: string[]) => authorize({ roles, mode: 'any' }),
+    requireAllRoles: (roles: string[]) => authorize({ roles, mode: 'all' }),
+
+    /**
+     * Require a policy ability, optionally against a resource loaded from the request.
+     * Without `loadResource`, rules with `when` conditions don't grant access
+     * @example
+     * ```typescript
+     * app.put('/api/users/:id', iam.requireAbility(policy, 'update', 'User', (req) => iamClient.getUser(req.params.id)), updateUser);
+     * ```
+     */
+    requireAbility: <Subjects extends Record<string, any>, S extends keyof Subjects & string>(
+      policy: Policy<Subjects>,
+      action: string,
+      subject: S,
+      loadResource?: (req: Request) => Subjects[S] | Promise<Subjects[S]>
+    ): RequestHandler =>
+      async (req: Request, res: Response, next: NextFunction) => {
+        const failure = await resolve(req);
+        if (failure) {
+          return reject(res, failure);
+        }
+
+        try {
+          // Without a loaded resource a conditional rule can't be decided, so only unconditional rules grant
+          const ability = policy.for(req.iam!);
+          const allowed = loadResource
+            ? ability.can(action, subject, await loadResource(req))
+            : ability.canWithoutConditions(action, subject);
+          if (!allowed) {
+            return reject(res, { status: 403, error: 'forbidden', message: `Not allowed to ${action} ${subject}` });
+          }
+          next();
+        } catch (error) {
+          next(error);
+        }
+      },
+  };
+};
+
+export type IAMMiddleware = ReturnType<typeof createIAMMiddleware>;
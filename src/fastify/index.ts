@@ -0,0 +1,125 @@
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest, preHandlerAsyncHookHandler } from 'fastify';
+import { IAMClient } from '../IAMClient';
+import {
+  AuthFailure,
+  AuthRequirements,
+  ErrorFormatter,
+  IAMRequestContext,
+  TokenSource,
+  authenticateRequest,
+  checkRequirements,
+  defaultErrorFormatter,
+  nodeRequestAccessors,
+  passesOptionalAuth,
+} from '../server';
+
+export type { AuthFailure, AuthRequirements, ErrorFormatter, IAMRequestContext, TokenSource } from '../server';
+
+/**
+ * Auth settings for a route, passed to `fastify.iamAuth()` or set in the route `config`
+ */
+export interface IAMRouteAuthOptions extends AuthRequirements {
+  /** Continue with `request.iam = null` instead of replying 401 when no valid token is present */
+  optional?: boolean;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Verified IAM identity, or null when the request is not authenticated */
+    iam: IAMRequestContext | null;
+  }
+
+  interface FastifyInstance {
+    /** Create a preHandler that authenticates the request and checks the requirements */
+    iamAuth: (options?: IAMRouteAuthOptions) => preHandlerAsyncHookHandler;
+  }
+
+  interface FastifyContextConfig {
+    /** Set to true (or 'optional') to authenticate the route without further requirements */
+    auth?: boolean | 'optional';
+    /** Permissions required by the route */
+    permissions?: string[];
+    /** Roles required by the route */
+    roles?: string[];
+    /** Whether any (default) or all of the listed permissions/roles are required */
+    permissionMode?: 'any' | 'all';
+  }
+}
+
+export interface IAMFastifyOptions {
+  client: IAMClient;
+  /** Where to read the token from, in order (default: ['header']) */
+  tokenSources?: TokenSource[];
+  /** Build the JSON body for 401/403/429/503 replies */
+  formatError?: ErrorFormatter;
+}
+
+/**
+ * Fastify plugin that decorates `request.iam` and `fastify.iamAuth()`, and
+ * protects every route whose `config` sets `auth`, `permissions` or `roles`
+ * @example
+ * ```typescript
+ * await app.register(iamPlugin, { client: iamClient });
+ *
+ * app.get('/api/users', { config: { permissions: ['users.view'] } }, async (request) => {
+ *   return iamClient.withToken(request.iam!.token).getUsers();
+ * });
+ * app.get('/api/me', { preHandler: app.iamAuth() }, async (request) => request.iam!.user);
+ * ```
+ */
+const plugin: FastifyPluginAsync<IAMFastifyOptions> = async (fastify: FastifyInstance, options: IAMFastifyOptions) => {
+  const { client, tokenSources = ['header'], formatError = defaultErrorFormatter } = options;
+
+  const reject = (reply: FastifyReply, failure: AuthFailure) => reply.code(failure.status).send(formatError(failure));
+
+  const resolve = async (request: FastifyRequest): Promise<AuthFailure | null> => {
+    if (request.iam) {
+      return null;
+    }
+
+    const { context, failure } = await authenticateRequest(client, nodeRequestAccessors(request), { tokenSources });
+    request.iam = context ?? null;
+    return failure ?? null;
+  };
+
+  const iamAuth = (authOptions: IAMRouteAuthOptions = {}): preHandlerAsyncHookHandler =>
+    async function (request, reply) {
+      const failure = await resolve(request);
+      if (failure) {
+        if (passesOptionalAuth(failure, authOptions.optional)) {
+          return;
+        }
+        return reject(reply, failure);
+      }
+
+      const forbidden = checkRequirements(request.iam!, authOptions);
+      if (forbidden) {
+        return reject(reply, forbidden);
+      }
+    };
+
+  fastify.decorateRequest('iam', null);
+  fastify.decorate('iamAuth', iamAuth);
+
+  fastify.addHook('onRoute', (routeOptions) => {
+    const config = routeOptions.config;
+    if (!config || (!config.auth && !config.permissions?.length && !config.roles?.length)) {
+      return;
+    }
+
+    const handler = iamAuth({
+      optional: config.auth === 'optional',
+      permissions: config.permissions,
+      roles: config.roles,
+      mode: config.permissionMode,
+    });
+    const existing = routeOptions.preHandler;
+    routeOptions.preHandler = existing ? [handler, ...(Array.isArray(existing) ? existing : [existing])] : [handler];
+  });
+};
+
+// Expose the decorators to the parent scope, like fastify-plugin does
+(plugin as any)[Symbol.for('skip-override')] = true;
+(plugin as any)[Symbol.for('fastify.display-name')] = 'adamus-iam-client';
+
+export const iamPlugin = plugin;
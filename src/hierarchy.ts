@@ -0,0 +1,154 @@
+import { IAMCycleError } from './errors';
+
+type NodeId = string | number;
+
+/**
+ * How to read a hierarchy from flat records, e.g. departments by `parent_department_id`
+ */
+export interface HierarchyAccessors<T> {
+  /** Record name used in error messages, e.g. 'Department' */
+  label: string;
+  id(item: T): NodeId;
+  /** Parent ID; null or undefined for roots */
+  parent(item: T): NodeId | null | undefined;
+}
+
+export type TreeNode<T> = T & { children: TreeNode<T>[] };
+
+// IDs arrive as numbers or numeric strings depending on the endpoint
+const keyOf = (id: NodeId): string => String(id);
+
+const indexById = <T>(items: T[], accessors: HierarchyAccessors<T>): Map<string, T> =>
+  new Map(items.map((item) => [keyOf(accessors.id(item)), item]));
+
+const parentOf = <T>(item: T, byId: Map<string, T>, accessors: HierarchyAccessors<T>): T | undefined => {
+  const parentId = accessors.parent(item);
+  return parentId === null || parentId === undefined ? undefined : byId.get(keyOf(parentId));
+};
+
+const cycleError = <T>(cycle: T[], accessors: HierarchyAccessors<T>): IAMCycleError => {
+  const ids = cycle.map((item) => accessors.id(item));
+  return new IAMCycleError(`${accessors.label} hierarchy contains a cycle: ${[...ids, ids[0]].join(' → ')}`, ids);
+};
+
+/**
+ * Find every cycle in the parent links, e.g. A's parent is B and B's parent is A
+ * @returns The IDs of each cycle, in parent order
+ */
+export const findCycles = <T>(items: T[], accessors: HierarchyAccessors<T>): NodeId[][] => {
+  const byId = indexById(items, accessors);
+  const state = new Map<string, 'visiting' | 'done'>();
+  const cycles: NodeId[][] = [];
+
+  for (const item of items) {
+    const path: T[] = [];
+    let current: T | undefined = item;
+    while (current && !state.has(keyOf(accessors.id(current)))) {
+      state.set(keyOf(accessors.id(current)), 'visiting');
+      path.push(current);
+      current = parentOf(current, byId, accessors);
+    }
+
+    // Reaching a node of the current walk again closes a loop
+    if (current && state.get(keyOf(accessors.id(current))) === 'visiting') {
+      cycles.push(path.slice(path.indexOf(current)).map((node) => accessors.id(node)));
+    }
+    for (const node of path) {
+      state.set(keyOf(accessors.id(node)), 'done');
+    }
+  }
+
+  return cycles;
+};
+
+const assertAcyclic = <T>(items: T[], accessors: HierarchyAccessors<T>): void => {
+  const [cycle] = findCycles(items, accessors);
+  if (cycle) {
+    const byId = indexById(items, accessors);
+    throw cycleError(cycle.map((id) => byId.get(keyOf(id))!), accessors);
+  }
+};
+
+/**
+ * Nest flat records under their parents. Records whose parent is missing from the list become roots
+ * @throws IAMCycleError if the parent links loop
+ */
+export const buildTree = <T>(items: T[], accessors: HierarchyAccessors<T>): TreeNode<T>[] => {
+  assertAcyclic(items, accessors);
+
+  const nodes = new Map<string, TreeNode<T>>(
+    items.map((item) => [keyOf(accessors.id(item)), { ...item, children: [] }])
+  );
+  const roots: TreeNode<T>[] = [];
+  for (const item of items) {
+    const node = nodes.get(keyOf(accessors.id(item)))!;
+    const parentId = accessors.parent(item);
+    const parent = parentId === null || parentId === undefined ? undefined : nodes.get(keyOf(parentId));
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+};
+
+/**
+ * Ancestors of a record, nearest first
+ * @returns An empty list for roots and unknown IDs
+ * @throws IAMCycleError if the parent links loop
+ */
+export const findAncestors = <T>(items: T[], id: NodeId, accessors: HierarchyAccessors<T>): T[] => {
+  const byId = indexById(items, accessors);
+  const start = byId.get(keyOf(id));
+  const chain: T[] = [];
+  const seen = new Set<string>([keyOf(id)]);
+
+  let current = start && parentOf(start, byId, accessors);
+  while (current) {
+    const key = keyOf(accessors.id(current));
+    if (seen.has(key)) {
+      const loop = [start!, ...chain];
+      throw cycleError(loop.slice(loop.findIndex((node) => keyOf(accessors.id(node)) === key)), accessors);
+    }
+    seen.add(key);
+    chain.push(current);
+    current = parentOf(current, byId, accessors);
+  }
+  return chain;
+};
+
+/**
+ * Descendants of a record, level by level (children first, then grandchildren, ...)
+ * @returns An empty list for leaves and unknown IDs
+ * @throws IAMCycleError if the parent links loop
+ */
+export const findDescendants = <T>(items: T[], id: NodeId, accessors: HierarchyAccessors<T>): T[] => {
+  const children = new Map<string, T[]>();
+  for (const item of items) {
+    const parentId = accessors.parent(item);
+    if (parentId !== null && parentId !== undefined) {
+      const siblings = children.get(keyOf(parentId)) ?? [];
+      siblings.push(item);
+      children.set(keyOf(parentId), siblings);
+    }
+  }
+
+  const descendants: T[] = [];
+  const seen = new Set<string>([keyOf(id)]);
+  const queue = [keyOf(id)];
+  while (queue.length) {
+    for (const child of children.get(queue.shift()!) ?? []) {
+      const key = keyOf(accessors.id(child));
+      // In a tree every record has one parent, so only a loop leads back to a visited record
+      if (seen.has(key)) {
+        assertAcyclic(items, accessors);
+        continue;
+      }
+      seen.add(key);
+      descendants.push(child);
+      queue.push(key);
+    }
+  }
+  return descendants;
+};
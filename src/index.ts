@@ -1,3 +1,17 @@
 export { IAMClient } from './IAMClient';
 export * from './types';
+export * from './errors';
+export * from './tokenStore';
+export * from './cache';
+export { parseCookies, serializeCookies } from './cookies';
+export * from './permissions';
+export * from './pagination';
+export * from './query';
+export * from './envelope';
+export * from './schema';
+export * from './hierarchy';
+export * from './phone';
+export * from './policy';
+export { JwtVerifier } from './jwks';
+export type { JsonWebKeySet } from './jwks';
 export * from './react';
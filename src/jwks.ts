@@ -0,0 +1,186 @@
+import { IAMAuthenticationError, IAMError } from './errors';
+import { DecodedJwt, JwtPayload, decodeJwt, getSubtleCrypto } from './jwt';
+import { JwtVerificationOptions } from './types';
+
+export interface JsonWebKeySet {
+  keys: Array<JsonWebKey & { kid?: string; alg?: string; use?: string }>;
+}
+
+type VerifyAlgorithm = RsaPssParams | EcdsaParams | AlgorithmIdentifier;
+
+/**
+ * Web Crypto parameters for each supported JWS algorithm
+ */
+const ALGORITHMS: Record<string, { importParams: RsaHashedImportParams | EcKeyImportParams; verifyParams: VerifyAlgorithm }> = {
+  RS256: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  RS384: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  RS512: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  PS256: { importParams: { name: 'RSA-PSS', hash: 'SHA-256' }, verifyParams: { name: 'RSA-PSS', saltLength: 32 } },
+  PS384: { importParams: { name: 'RSA-PSS', hash: 'SHA-384' }, verifyParams: { name: 'RSA-PSS', saltLength: 48 } },
+  PS512: { importParams: { name: 'RSA-PSS', hash: 'SHA-512' }, verifyParams: { name: 'RSA-PSS', saltLength: 64 } },
+  ES256: { importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } },
+  ES384: { importParams: { name: 'ECDSA', namedCurve: 'P-384' }, verifyParams: { name: 'ECDSA', hash: 'SHA-384' } },
+  ES512: { importParams: { name: 'ECDSA', namedCurve: 'P-521' }, verifyParams: { name: 'ECDSA', hash: 'SHA-512' } },
+};
+
+// Don't hammer the JWKS endpoint when it is down or tokens with unknown key IDs keep arriving
+const MIN_REFETCH_INTERVAL = 30000;
+
+/**
+ * Verifies JWT signatures and claims locally against a JSON Web Key Set
+ */
+export class JwtVerifier {
+  private keySet: JsonWebKeySet | null = null;
+  private fetchedAt: number = 0;
+  private attemptedAt: number = 0;
+  private pendingFetch: Promise<JsonWebKeySet> | null = null;
+  private importedKeys: Map<string, Promise<CryptoKey>> = new Map();
+  private options: Required<Pick<JwtVerificationOptions, 'algorithms' | 'clockTolerance' | 'jwksCacheTtl'>> & JwtVerificationOptions;
+
+  /**
+   * @param fetchKeySet - Loads the JWKS document from the IAM service
+   */
+  constructor(private fetchKeySet: () => Promise<JsonWebKeySet>, options: JwtVerificationOptions = {}) {
+    this.options = {
+      algorithms: ['RS256'],
+      clockTolerance: 0,
+      jwksCacheTtl: 600000,
+      ...options,
+    };
+  }
+
+  /**
+   * Verify the token's signature, `exp`, `nbf`, issuer and audience
+   * @returns The verified claims
+   * @throws IAMAuthenticationError if the token is malformed or fails any check
+   */
+  async verify(token: string): Promise<JwtPayload> {
+    const decoded = decodeJwt(token);
+    if (!decoded) {
+      throw new IAMAuthenticationError('Malformed token');
+    }
+
+    const { alg } = decoded.header;
+    if (!this.options.algorithms.includes(alg) || !ALGORITHMS[alg]) {
+      throw new IAMAuthenticationError(`Unsupported token algorithm: ${alg}`);
+    }
+
+    const key = await this.getKey(decoded);
+    const valid = await getSubtleCrypto().verify(
+      ALGORITHMS[alg].verifyParams,
+      key,
+      decoded.signature as BufferSource,
+      new TextEncoder().encode(decoded.signingInput)
+    );
+    if (!valid) {
+      throw new IAMAuthenticationError('Invalid token signature');
+    }
+
+    this.verifyClaims(decoded.payload);
+    return decoded.payload;
+  }
+
+  /**
+   * Drop cached keys so the next verification refetches the key set
+   */
+  clearKeys(): void {
+    this.keySet = null;
+    this.fetchedAt = 0;
+    this.attemptedAt = 0;
+    this.importedKeys.clear();
+  }
+
+  private verifyClaims(payload: JwtPayload): void {
+    const now = Date.now() / 1000;
+    const { clockTolerance, issuer, audience } = this.options;
+
+    if (typeof payload.exp === 'number' && now - clockTolerance >= payload.exp) {
+      throw new IAMAuthenticationError('Token has expired');
+    }
+
+    if (typeof payload.nbf === 'number' && now + clockTolerance < payload.nbf) {
+      throw new IAMAuthenticationError('Token is not yet valid');
+    }
+
+    if (issuer) {
+      const issuers = Array.isArray(issuer) ? issuer : [issuer];
+      if (!payload.iss || !issuers.includes(payload.iss)) {
+        throw new IAMAuthenticationError('Invalid token issuer');
+      }
+    }
+
+    if (audience) {
+      const expected = Array.isArray(audience) ? audience : [audience];
+      const actual = Array.isArray(payload.aud) ? payload.aud : payload.aud ? [payload.aud] : [];
+      if (!actual.some((aud) => expected.includes(aud))) {
+        throw new IAMAuthenticationError('Invalid token audience');
+      }
+    }
+  }
+
+  private async getKey(decoded: DecodedJwt): Promise<CryptoKey> {
+    const { alg, kid } = decoded.header;
+
+    let jwk = this.findKey(await this.getKeySet(), alg, kid);
+    if (!jwk) {
+      // The IAM service may have rotated its keys
+      jwk = this.findKey(await this.getKeySet(true), alg, kid);
+    }
+    if (!jwk) {
+      throw new IAMAuthenticationError('No signing key found for token');
+    }
+
+    const cacheKey = `${alg}:${jwk.kid ?? JSON.stringify(jwk)}`;
+    let key = this.importedKeys.get(cacheKey);
+    if (!key) {
+      key = getSubtleCrypto().importKey('jwk', jwk, ALGORITHMS[alg].importParams, false, ['verify']);
+      this.importedKeys.set(cacheKey, key);
+      key.catch(() => this.importedKeys.delete(cacheKey));
+    }
+    return key;
+  }
+
+  private findKey(keySet: JsonWebKeySet, alg: string, kid?: string) {
+    const candidates = keySet.keys.filter(
+      (key) => (!key.use || key.use === 'sig') && (!key.alg || key.alg === alg) && (!kid || key.kid === kid)
+    );
+    return candidates[0];
+  }
+
+  private async getKeySet(forceRefresh: boolean = false): Promise<JsonWebKeySet> {
+    const now = Date.now();
+    if (this.keySet && !forceRefresh && now - this.fetchedAt < this.options.jwksCacheTtl) {
+      return this.keySet;
+    }
+    if (this.keySet && !this.pendingFetch && now - this.attemptedAt < MIN_REFETCH_INTERVAL) {
+      return this.keySet;
+    }
+
+    if (!this.pendingFetch) {
+      this.attemptedAt = now;
+      this.pendingFetch = this.fetchKeySet()
+        .then((keySet) => {
+          if (!keySet || !Array.isArray(keySet.keys)) {
+            throw new IAMError('Invalid JWKS response');
+          }
+          this.keySet = keySet;
+          this.fetchedAt = Date.now();
+          this.importedKeys.clear();
+          return keySet;
+        })
+        .finally(() => {
+          this.pendingFetch = null;
+        });
+    }
+
+    try {
+      return await this.pendingFetch;
+    } catch (error) {
+      // Keep verifying with the last known keys during a short IAM outage
+      if (this.keySet) {
+        return this.keySet;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { IAMError } from './errors';
+
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+  [key: string]: any;
+}
+
+export interface JwtPayload {
+  iss?: string;
+  sub?: string | number;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [key: string]: any;
+}
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: JwtPayload;
+  signature: Uint8Array;
+  /** The `header.payload` part the signature was computed over */
+  signingInput: string;
+}
+
+/**
+ * Decode base64url (RFC 4648 §5) into bytes
+ */
+export const base64UrlDecode = (input: string): Uint8Array => {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Decode a JWT without verifying its signature
+ * @returns The decoded token, or null if the token is not a JWT (e.g. a Sanctum/opaque token)
+ */
+export const decodeJwt = (token: string): DecodedJwt | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const decoder = new TextDecoder();
+    return {
+      header: JSON.parse(decoder.decode(base64UrlDecode(parts[0]))),
+      payload: JSON.parse(decoder.decode(base64UrlDecode(parts[1]))),
+      signature: base64UrlDecode(parts[2]),
+      signingInput: `${parts[0]}.${parts[1]}`,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Get the `exp` claim of a JWT in epoch milliseconds, or null if absent / not a JWT
+ */
+export const getJwtExpiry = (token: string): number | null => {
+  const exp = decodeJwt(token)?.payload.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+/**
+ * Find the Web Crypto implementation. Missing on plain-http origins, React Native and Node.js 16
+ */
+export const findSubtleCrypto = (): SubtleCrypto | undefined =>
+  (globalThis as any).crypto?.subtle as SubtleCrypto | undefined;
+
+/**
+ * Get the Web Crypto implementation (browsers and Node.js 18+)
+ */
+export const getSubtleCrypto = (): SubtleCrypto => {
+  const subtle = findSubtleCrypto();
+  if (!subtle) {
+    throw new IAMError('Web Crypto API is not available in this environment');
+  }
+  return subtle;
+};
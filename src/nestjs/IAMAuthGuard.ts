@@ -0,0 +1,88 @@
+import { CanActivate, ExecutionContext, HttpException, Inject, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IAMClient } from '../IAMClient';
+import {
+  AuthFailure,
+  authenticateRequest,
+  checkRequirements,
+  defaultErrorFormatter,
+  missingTokenFailure,
+  nodeRequestAccessors,
+} from '../server';
+import { IAMModuleOptions, IAM_MODULE_OPTIONS, IS_PUBLIC_KEY, PERMISSIONS_KEY, ROLES_KEY } from './constants';
+import { AccessMetadata, getRequest } from './decorators';
+
+/**
+ * Authenticates HTTP and GraphQL requests against IAM and enforces `@Permissions()` / `@Roles()`.
+ * The verified identity is stored on `request.iam` for `@CurrentUser()` and `@CurrentIdentity()`
+ * @example
+ * ```typescript
+ * @UseGuards(IAMAuthGuard)
+ * @Controller('users')
+ * export class UsersController {
+ *   @Get()
+ *   @Permissions('users.view')
+ *   list(@CurrentUser() user: User) {}
+ * }
+ * ```
+ */
+@Injectable()
+export class IAMAuthGuard implements CanActivate {
+  constructor(
+    @Inject(Reflector) private readonly reflector: Reflector,
+    @Inject(IAMClient) private readonly client: IAMClient,
+    @Inject(IAM_MODULE_OPTIONS) private readonly options: IAMModuleOptions
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = getRequest(context);
+    if (!request) {
+      this.reject(missingTokenFailure());
+    }
+
+    const failure = await this.authenticate(request);
+    if (failure) {
+      this.reject(failure);
+    }
+
+    // Handler metadata overrides the controller's
+    const permissions = this.reflector.getAllAndOverride<AccessMetadata>(PERMISSIONS_KEY, targets);
+    const roles = this.reflector.getAllAndOverride<AccessMetadata>(ROLES_KEY, targets);
+    const forbidden =
+      (permissions && checkRequirements(request.iam, { permissions: permissions.values, mode: permissions.mode })) ||
+      (roles && checkRequirements(request.iam, { roles: roles.values, mode: roles.mode }));
+    if (forbidden) {
+      this.reject(forbidden);
+    }
+
+    return true;
+  }
+
+  /**
+   * Verify the request's token (or session cookie) and set `request.iam`
+   * @returns The failure to throw, or null when authenticated
+   */
+  private async authenticate(request: any): Promise<AuthFailure | null> {
+    if (request.iam) {
+      return null;
+    }
+
+    const { tokenSources = ['header'], sessionCookie } = this.options;
+    const { context, failure } = await authenticateRequest(this.client, nodeRequestAccessors(request), {
+      tokenSources,
+      sessionCookie,
+    });
+    request.iam = context;
+    return failure ?? null;
+  }
+
+  private reject(failure: AuthFailure): never {
+    const formatError = this.options.formatError ?? defaultErrorFormatter;
+    throw new HttpException(formatError(failure) as Record<string, any>, failure.status);
+  }
+}
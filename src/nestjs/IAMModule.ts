@@ -0,0 +1,74 @@
+import { DynamicModule, InjectionToken, Module, ModuleMetadata, OptionalFactoryDependency, Provider } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { IAMClient } from '../IAMClient';
+import { IAMModuleOptions, IAM_MODULE_OPTIONS } from './constants';
+import { IAMAuthGuard } from './IAMAuthGuard';
+
+export interface IAMModuleRegistration {
+  /** Make IAMClient and IAMAuthGuard injectable in every module */
+  isGlobal?: boolean;
+  /** Register IAMAuthGuard as an APP_GUARD so every route requires authentication unless marked `@Public()` */
+  globalGuard?: boolean;
+}
+
+export interface IAMModuleAsyncOptions extends IAMModuleRegistration, Pick<ModuleMetadata, 'imports'> {
+  useFactory: (...args: any[]) => IAMModuleOptions | Promise<IAMModuleOptions>;
+  inject?: (InjectionToken | OptionalFactoryDependency)[];
+}
+
+/**
+ * Registers a server-mode IAMClient provider and the IAM guard
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [
+ *     IAMModule.forRootAsync({
+ *       isGlobal: true,
+ *       globalGuard: true,
+ *       inject: [ConfigService],
+ *       useFactory: (config: ConfigService) => ({ baseUrl: config.get('IAM_BASE_URL') }),
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+@Module({})
+export class IAMModule {
+  static forRoot(options: IAMModuleOptions & IAMModuleRegistration): DynamicModule {
+    const { isGlobal, globalGuard, ...moduleOptions } = options;
+    return IAMModule.create({ provide: IAM_MODULE_OPTIONS, useValue: moduleOptions }, { isGlobal, globalGuard });
+  }
+
+  static forRootAsync(options: IAMModuleAsyncOptions): DynamicModule {
+    const { isGlobal, globalGuard, imports, useFactory, inject } = options;
+    return {
+      ...IAMModule.create({ provide: IAM_MODULE_OPTIONS, useFactory, inject: inject ?? [] }, { isGlobal, globalGuard }),
+      imports,
+    };
+  }
+
+  private static create(optionsProvider: Provider, registration: IAMModuleRegistration): DynamicModule {
+    const providers: Provider[] = [
+      optionsProvider,
+      {
+        provide: IAMClient,
+        // Never share a signed-in token between the requests a service handles
+        useFactory: ({ tokenSources, sessionCookie, formatError, ...config }: IAMModuleOptions) =>
+          new IAMClient({ serverMode: true, ...config }),
+        inject: [IAM_MODULE_OPTIONS],
+      },
+      IAMAuthGuard,
+    ];
+    if (registration.globalGuard) {
+      providers.push({ provide: APP_GUARD, useExisting: IAMAuthGuard });
+    }
+
+    return {
+      module: IAMModule,
+      global: registration.isGlobal ?? false,
+      providers,
+      exports: [IAMClient, IAMAuthGuard, IAM_MODULE_OPTIONS],
+    };
+  }
+}
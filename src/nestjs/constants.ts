@@ -0,0 +1,17 @@
+import type { ErrorFormatter, TokenSource } from '../server';
+import { IAMConfig } from '../types';
+
+export const IAM_MODULE_OPTIONS = Symbol('IAM_MODULE_OPTIONS');
+
+export const IS_PUBLIC_KEY = 'iam:public';
+export const PERMISSIONS_KEY = 'iam:permissions';
+export const ROLES_KEY = 'iam:roles';
+
+export interface IAMModuleOptions extends IAMConfig {
+  /** Where to read the token from, in order (default: ['header']) */
+  tokenSources?: TokenSource[];
+  /** Session cookie that triggers verifySession() when no token is found; all cookies are forwarded (disabled by default) */
+  sessionCookie?: string;
+  /** Build the body of the 401/403/429/503 exceptions thrown by the guard */
+  formatError?: ErrorFormatter;
+}
@@ -0,0 +1,65 @@
+import { ExecutionContext, SetMetadata, createParamDecorator } from '@nestjs/common';
+import type { IAMRequestContext } from '../server';
+import { IS_PUBLIC_KEY, PERMISSIONS_KEY, ROLES_KEY } from './constants';
+
+/**
+ * Requirement stored by `@Permissions()` and `@Roles()`
+ */
+export interface AccessMetadata {
+  values: string[];
+  mode: 'any' | 'all';
+}
+
+/**
+ * Read the underlying HTTP request from an HTTP or GraphQL execution context
+ */
+export const getRequest = (context: ExecutionContext): any => {
+  if (context.getType<string>() === 'graphql') {
+    // Resolver arguments are (root, args, context, info); the request lives on the GraphQL context
+    const gqlContext = context.getArgByIndex(2);
+    return gqlContext?.req ?? gqlContext?.request;
+  }
+  return context.switchToHttp().getRequest();
+};
+
+/**
+ * Skip the IAM guard for a route or controller
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * Require any (default) or all of the permissions. Wildcard grants such as `users.*` match
+ * @example
+ * ```typescript
+ * @Permissions('users.view')
+ * @Permissions(['users.delete', 'users.view'], 'all')
+ * ```
+ */
+export const Permissions = (permissions: string | string[], mode: 'any' | 'all' = 'any') =>
+  SetMetadata<string, AccessMetadata>(PERMISSIONS_KEY, { values: Array.isArray(permissions) ? permissions : [permissions], mode });
+
+/**
+ * Require any (default) or all of the roles
+ */
+export const Roles = (roles: string | string[], mode: 'any' | 'all' = 'any') =>
+  SetMetadata<string, AccessMetadata>(ROLES_KEY, { values: Array.isArray(roles) ? roles : [roles], mode });
+
+/**
+ * Inject the authenticated user, or one of its fields
+ * @example
+ * ```typescript
+ * me(@CurrentUser() user: User) {}
+ * department(@CurrentUser('department_id') departmentId: number) {}
+ * ```
+ */
+export const CurrentUser = createParamDecorator((field: string | undefined, context: ExecutionContext) => {
+  const user = (getRequest(context)?.iam as IAMRequestContext | undefined)?.user;
+  return field ? (user as any)?.[field] : user;
+});
+
+/**
+ * Inject the full verified identity: `user`, `permissions`, `roles` and `token`
+ */
+export const CurrentIdentity = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): IAMRequestContext | undefined => getRequest(context)?.iam
+);
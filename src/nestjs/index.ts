@@ -0,0 +1,5 @@
+export * from './constants';
+export * from './decorators';
+export * from './IAMAuthGuard';
+export * from './IAMModule';
+export type { AuthFailure, ErrorFormatter, IAMRequestContext, TokenSource } from '../server';
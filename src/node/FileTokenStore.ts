@@ -0,0 +1,31 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TokenStore } from '../types';
+
+/**
+ * Persists the token in a file readable only by the current user (CLI scripts, cron jobs)
+ */
+export class FileTokenStore implements TokenStore {
+  constructor(private filePath: string) {}
+
+  async get(): Promise<string | null> {
+    try {
+      const token = (await fs.readFile(this.filePath, 'utf8')).trim();
+      return token || null;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(token: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, token, { encoding: 'utf8', mode: 0o600 });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
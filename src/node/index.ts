@@ -0,0 +1 @@
+export { FileTokenStore } from './FileTokenStore';
@@ -0,0 +1,123 @@
+import { PaginatedResponse, QueryParams } from './types';
+
+export interface PaginateOptions {
+  /** Items per page, sent as `per_page` (default: the endpoint's own page size) */
+  pageSize?: number;
+  /** Stop after this many items */
+  maxItems?: number;
+  /** How many pages may be requested at once while the consumer works through earlier ones (default: 1) */
+  concurrency?: number;
+  /** Page to start from (default: 1) */
+  startPage?: number;
+}
+
+/**
+ * Fetch one page of a listing, e.g. `(query) => client.getUsers(query)`
+ */
+export type PageFetcher<T, Q extends PageQuery = QueryParams> = (query: Q) => Promise<PaginatedResponse<T>>;
+
+/**
+ * Any listing query with the standard page parameters
+ */
+export interface PageQuery {
+  page?: number;
+  per_page?: number;
+}
+
+/**
+ * Async iterator over the items of a paginated listing, with access to the underlying pages
+ */
+export interface Paginator<T> extends AsyncIterable<T> {
+  /** Iterate page by page. With `maxItems`, the last page is trimmed to the cap */
+  pages(): AsyncIterableIterator<PaginatedResponse<T>>;
+  /** Collect every item into an array */
+  toArray(): Promise<T[]>;
+}
+
+/**
+ * Walk a paginated listing page by page. The first page tells how many pages exist;
+ * later pages are prefetched up to `concurrency` at a time and yielded in order.
+ * @example
+ * ```typescript
+ * for await (const user of paginate((query) => client.getUsers(query), { search: 'ama' }, { pageSize: 100 })) {
+ *   await syncUser(user);
+ * }
+ * ```
+ */
+export const paginate = <T, Q extends PageQuery = QueryParams>(
+  fetchPage: PageFetcher<T, Q>,
+  query: Q = {} as Q,
+  options: PaginateOptions = {}
+): Paginator<T> => {
+  const { pageSize, maxItems = Infinity, startPage = 1 } = options;
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const baseQuery: Q = pageSize ? { ...query, per_page: pageSize } : { ...query };
+
+  const request = (page: number): Promise<PaginatedResponse<T>> => {
+    const pending = fetchPage({ ...baseQuery, page });
+    // Prefetched pages may be abandoned when the consumer stops early
+    pending.catch(() => undefined);
+    return pending;
+  };
+
+  async function* pages(): AsyncIterableIterator<PaginatedResponse<T>> {
+    if (maxItems <= 0) {
+      return;
+    }
+
+    let remaining = maxItems;
+    const first = await request(startPage);
+    yield remaining < first.data.length ? { ...first, data: first.data.slice(0, remaining) } : first;
+    remaining -= first.data.length;
+    if (remaining <= 0) {
+      return;
+    }
+
+    // Only request the pages still needed to reach maxItems
+    const perPage = first.per_page || first.data.length;
+    let lastPage = first.last_page;
+    if (Number.isFinite(remaining) && perPage > 0) {
+      lastPage = Math.min(lastPage, startPage + Math.ceil(remaining / perPage));
+    }
+
+    const queue: Promise<PaginatedResponse<T>>[] = [];
+    let nextPage = startPage + 1;
+    const fill = () => {
+      while (queue.length < concurrency && nextPage <= lastPage) {
+        queue.push(request(nextPage++));
+      }
+    };
+
+    fill();
+    while (queue.length) {
+      const page = await queue.shift()!;
+      fill();
+      if (!page.data.length) {
+        return;
+      }
+      yield remaining < page.data.length ? { ...page, data: page.data.slice(0, remaining) } : page;
+      remaining -= page.data.length;
+      if (remaining <= 0) {
+        return;
+      }
+    }
+  }
+
+  async function* items(): AsyncIterableIterator<T> {
+    for await (const page of pages()) {
+      yield* page.data;
+    }
+  }
+
+  return {
+    [Symbol.asyncIterator]: items,
+    pages,
+    async toArray() {
+      const all: T[] = [];
+      for await (const item of items()) {
+        all.push(item);
+      }
+      return all;
+    },
+  };
+};
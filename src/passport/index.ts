@@ -0,0 +1,140 @@
+import { Strategy } from 'passport-strategy';
+import { IAMClient } from '../IAMClient';
+import {
+  IAMRequestContext,
+  TokenSource,
+  extractToken,
+  nodeRequestAccessors,
+  toAuthFailure,
+  toRequestContext,
+} from '../server';
+import { TokenVerificationResponse, User } from '../types';
+
+export type { IAMRequestContext, TokenSource } from '../server';
+
+/**
+ * Default Passport user: the IAM user with its effective permissions and role names
+ */
+export type IAMPassportUser = User & {
+  permissions: string[];
+  role_names: string[];
+};
+
+export interface IAMStrategyOptions {
+  client: IAMClient;
+  /** Strategy name passed to `passport.authenticate()` */
+  name?: string;
+  /** Build the Passport user from the verified identity (default: IAMPassportUser) */
+  mapUser?: (context: IAMRequestContext) => unknown;
+}
+
+export interface IAMBearerStrategyOptions extends IAMStrategyOptions {
+  /** Where to read the token from, in order (default: ['header']) */
+  tokenSources?: TokenSource[];
+}
+
+export interface IAMSessionStrategyOptions extends IAMStrategyOptions {
+  /** Session cookie name (default: the client's `session.cookieName`) */
+  cookieName?: string;
+}
+
+const toPassportUser = ({ user, permissions, roles }: IAMRequestContext): IAMPassportUser => ({
+  ...user,
+  permissions,
+  role_names: roles,
+});
+
+/**
+ * Shared verification flow: `req.user` gets the mapped user and `req.authInfo` the full request context
+ */
+abstract class IAMStrategy extends Strategy {
+  name: string;
+  protected client: IAMClient;
+  private mapUser: (context: IAMRequestContext) => unknown;
+
+  constructor(options: IAMStrategyOptions, defaultName: string) {
+    super();
+    this.name = options.name ?? defaultName;
+    this.client = options.client;
+    this.mapUser = options.mapUser ?? toPassportUser;
+  }
+
+  protected verify(credential: string, verification: Promise<TokenVerificationResponse>, challenge: unknown): void {
+    verification.then(
+      (result) => {
+        const context = toRequestContext(result, credential);
+        let user: unknown;
+        // Only mapUser is guarded: anything thrown after success() comes from the rest of the middleware chain
+        try {
+          user = this.mapUser(context);
+        } catch (error) {
+          return this.error(error as Error);
+        }
+        this.success(user, context);
+      },
+      (error) => {
+        const failure = toAuthFailure(error);
+        // An unreachable or throttling IAM service is an error, not a failed login
+        if (failure.status === 401 || failure.status === 403) {
+          this.fail(challenge, failure.status);
+        } else {
+          this.error(error);
+        }
+      }
+    );
+  }
+}
+
+/**
+ * Passport strategy for IAM access tokens, verified (and cached) with `verifyToken()`
+ * @example
+ * ```typescript
+ * passport.use(new IAMBearerStrategy({ client: iamClient }));
+ * app.get('/api/me', passport.authenticate('iam-bearer', { session: false }), (req, res) => res.json(req.user));
+ * ```
+ */
+export class IAMBearerStrategy extends IAMStrategy {
+  private tokenSources: TokenSource[];
+
+  constructor(options: IAMBearerStrategyOptions) {
+    super(options, 'iam-bearer');
+    this.tokenSources = options.tokenSources ?? ['header'];
+  }
+
+  authenticate(req: any): void {
+    const token = extractToken(this.tokenSources, nodeRequestAccessors(req));
+    if (!token) {
+      return this.fail('Bearer realm="IAM"', 401);
+    }
+
+    this.verify(token, this.client.verifyToken(token), 'Bearer realm="IAM", error="invalid_token"');
+  }
+}
+
+/**
+ * Passport strategy for the IAM (Laravel) session cookie, verified (and cached) with `verifySession()`
+ * @example
+ * ```typescript
+ * passport.use(new IAMSessionStrategy({ client: iamClient }));
+ * app.get('/dashboard', passport.authenticate(['iam-bearer', 'iam-session'], { session: false }), showDashboard);
+ * ```
+ */
+export class IAMSessionStrategy extends IAMStrategy {
+  private cookieName: string;
+
+  constructor(options: IAMSessionStrategyOptions) {
+    super(options, 'iam-session');
+    this.cookieName = options.cookieName ?? this.client.getSessionCookieName();
+  }
+
+  authenticate(req: any): void {
+    const cookies = nodeRequestAccessors(req).cookies();
+    const session = cookies[this.cookieName];
+    if (!session) {
+      return this.fail({ message: 'No session cookie provided' }, 401);
+    }
+
+    // Forward the whole cookie jar, as the browser would
+    this.verify(session, this.client.verifySession(cookies), { message: 'Invalid or expired session' });
+  }
+}
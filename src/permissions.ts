@@ -0,0 +1,54 @@
+import type { Role } from './types';
+
+/**
+ * Check whether a granted permission covers a required one.
+ * `*` grants everything; a `*` segment matches any single segment (`*.view`),
+ * and a trailing `*` matches the rest of the name (`users.*` covers `users.create` and `users.phone.edit`).
+ */
+export const matchesPermission = (granted: string, required: string): boolean => {
+  if (granted === '*' || granted === required) {
+    return true;
+  }
+  if (!granted.includes('*')) {
+    return false;
+  }
+
+  const grantedSegments = granted.split('.');
+  const requiredSegments = required.split('.');
+
+  for (let i = 0; i < grantedSegments.length; i++) {
+    const segment = grantedSegments[i];
+    const isLast = i === grantedSegments.length - 1;
+
+    if (segment === '*' && isLast) {
+      return requiredSegments.length > i;
+    }
+    if (i >= requiredSegments.length || (segment !== '*' && segment !== requiredSegments[i])) {
+      return false;
+    }
+  }
+
+  return grantedSegments.length === requiredSegments.length;
+};
+
+/**
+ * Check a required permission against a list of granted permissions (wildcards allowed)
+ */
+export const hasPermissionIn = (granted: string[], required: string): boolean =>
+  granted.some((permission) => matchesPermission(permission, required));
+
+/**
+ * Check a required role against a list of role names (case-sensitive, like the IAM service)
+ */
+export const hasRoleIn = (roles: string[], required: string): boolean => roles.includes(required);
+
+/**
+ * Collect role names from an identity's `roles` list and its user's roles, which the IAM sends as objects or plain names
+ */
+export const collectRoleNames = (identity: { roles?: string[]; user?: { roles?: (Role | string)[] } | null } | null | undefined): string[] => {
+  const roles = new Set<string>(identity?.roles || []);
+  for (const role of identity?.user?.roles || []) {
+    roles.add(typeof role === 'string' ? role : role.name);
+  }
+  return Array.from(roles);
+};
@@ -0,0 +1,143 @@
+import { IAMValidationError } from './errors';
+
+/**
+ * Numbering plan of one country
+ */
+export interface PhoneCountryRules {
+  /** ISO 3166 country code, used in messages, e.g. 'GH' */
+  country: string;
+  /** International calling code without '+', e.g. '233' */
+  callingCode: string;
+  /** Prefix of numbers dialled within the country, e.g. '0' */
+  trunkPrefix: string;
+  /** Digits after the calling code (or trunk prefix) */
+  nationalNumberLength: number;
+  /** Pattern the national number must match, e.g. valid operator prefixes */
+  nationalNumberPattern?: RegExp;
+}
+
+/**
+ * Ghana: 0XX XXX XXXX locally, +233 XX XXX XXXX internationally
+ */
+export const GHANA_PHONE_RULES: PhoneCountryRules = {
+  country: 'GH',
+  callingCode: '233',
+  trunkPrefix: '0',
+  nationalNumberLength: 9,
+  nationalNumberPattern: /^[235]\d{8}$/,
+};
+
+export interface ParsedPhoneNumber {
+  country: string;
+  /** Digits after the calling code, e.g. '248048753' */
+  nationalNumber: string;
+  /** As dialled within the country, e.g. '0248048753' */
+  local: string;
+  /** International format, e.g. '+233248048753' */
+  e164: string;
+}
+
+// Separators people type between digit groups
+const SEPARATORS = /[\s\-.()/]/g;
+
+/**
+ * Parse a phone number typed in any common local or international form
+ * @returns null if the input is not a valid number under the rules
+ * @example
+ * ```typescript
+ * parsePhoneNumber('+233 24 804 8753')?.local; // '0248048753'
+ * parsePhoneNumber('024-804-8753')?.e164; // '+233248048753'
+ * ```
+ */
+export const parsePhoneNumber = (
+  input: string,
+  rules: PhoneCountryRules = GHANA_PHONE_RULES
+): ParsedPhoneNumber | null => {
+  const compact = String(input ?? '').trim().replace(SEPARATORS, '');
+  if (!/^(\+|00)?\d+$/.test(compact)) {
+    return null;
+  }
+
+  const { callingCode, trunkPrefix, nationalNumberLength } = rules;
+  const international = compact.startsWith('+') || compact.startsWith('00');
+  const digits = compact.replace(/^(\+|00)/, '');
+  let national: string;
+
+  if (international || (digits.startsWith(callingCode) && digits.length > nationalNumberLength + trunkPrefix.length)) {
+    if (!digits.startsWith(callingCode)) {
+      return null;
+    }
+    national = digits.slice(callingCode.length);
+    // "+233 (0)24 ..." keeps the trunk prefix after the calling code
+    if (trunkPrefix && national.length === nationalNumberLength + trunkPrefix.length && national.startsWith(trunkPrefix)) {
+      national = national.slice(trunkPrefix.length);
+    }
+  } else if (trunkPrefix && digits.startsWith(trunkPrefix) && digits.length === nationalNumberLength + trunkPrefix.length) {
+    national = digits.slice(trunkPrefix.length);
+  } else {
+    national = digits;
+  }
+
+  if (national.length !== nationalNumberLength || (rules.nationalNumberPattern && !rules.nationalNumberPattern.test(national))) {
+    return null;
+  }
+
+  return {
+    country: rules.country,
+    nationalNumber: national,
+    local: `${trunkPrefix}${national}`,
+    e164: `+${callingCode}${national}`,
+  };
+};
+
+/**
+ * Check whether a phone number is valid under the rules
+ */
+export const isValidPhoneNumber = (input: string, rules: PhoneCountryRules = GHANA_PHONE_RULES): boolean =>
+  parsePhoneNumber(input, rules) !== null;
+
+const invalidPhoneMessage = (rules: PhoneCountryRules): string =>
+  `The phone must be a valid ${rules.country} phone number.`;
+
+/**
+ * Get the validation message for a phone number, worded like the IAM API's
+ * @returns null if the number is valid under the rules
+ * @example
+ * ```typescript
+ * getPhoneNumberError('12345'); // 'The phone must be a valid GH phone number.'
+ * ```
+ */
+export const getPhoneNumberError = (input: string, rules: PhoneCountryRules = GHANA_PHONE_RULES): string | null =>
+  parsePhoneNumber(input, rules) ? null : invalidPhoneMessage(rules);
+
+/**
+ * Parse a phone number or throw the same validation error the IAM API would return
+ * @throws IAMValidationError with the message under `phone`
+ */
+export const normalizePhoneNumber = (
+  input: string,
+  format: 'local' | 'e164' = 'local',
+  rules: PhoneCountryRules = GHANA_PHONE_RULES
+): string => {
+  const parsed = parsePhoneNumber(input, rules);
+  if (!parsed) {
+    const message = invalidPhoneMessage(rules);
+    // Raised before any request, so there is no HTTP status
+    throw new IAMValidationError(message, { phone: [message] }, { statusCode: undefined });
+  }
+  return parsed[format];
+};
+
+/**
+ * Convert a phone number to E.164, e.g. '0248048753' → '+233248048753'
+ * @throws IAMValidationError if the number is invalid
+ */
+export const toE164 = (input: string, rules: PhoneCountryRules = GHANA_PHONE_RULES): string =>
+  normalizePhoneNumber(input, 'e164', rules);
+
+/**
+ * Convert a phone number to the local format, e.g. '+233 24 804 8753' → '0248048753'
+ * @throws IAMValidationError if the number is invalid
+ */
+export const toLocalPhoneNumber = (input: string, rules: PhoneCountryRules = GHANA_PHONE_RULES): string =>
+  normalizePhoneNumber(input, 'local', rules);
@@ -0,0 +1,220 @@
+import { IAMForbiddenError } from './errors';
+import { collectRoleNames, hasPermissionIn, hasRoleIn } from './permissions';
+import { Department, Permission, Position, Role, TokenVerificationResponse, User, UserPhoneNumber } from './types';
+
+/**
+ * Resource types the policy knows about, keyed by subject name
+ */
+export interface DefaultPolicySubjects {
+  User: User;
+  Department: Department;
+  Position: Position;
+  UserPhoneNumber: UserPhoneNumber;
+  Role: Role;
+  Permission: Permission;
+}
+
+/**
+ * Condition on the identity and the resource being acted upon
+ */
+export type PolicyCondition<T = any> = (identity: TokenVerificationResponse, resource: T) => boolean;
+
+export interface PolicyRuleOptions<T = any> {
+  /** Grant only if the identity has any of these permissions (wildcards allowed) */
+  permission?: string | string[];
+  /** Grant only if the identity has any of these roles */
+  role?: string | string[];
+  /** Grant only if every condition holds for the resource */
+  when?: PolicyCondition<T> | PolicyCondition<T>[];
+}
+
+interface PolicyRule extends PolicyRuleOptions {
+  actions: string[];
+  subjects: string[];
+  inverted: boolean;
+}
+
+const toArray = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+const sameId = (a: unknown, b: unknown): boolean =>
+  a !== undefined && a !== null && b !== undefined && b !== null && String(a) === String(b);
+
+const departmentIdOf = (user: Partial<User> | undefined): string | number | undefined | null =>
+  user?.department_id ?? user?.department?.id;
+
+/**
+ * Built-in conditions for the IAM data model
+ */
+export const conditions = {
+  /** The resource is the identity's own user record */
+  isSelf: (): PolicyCondition<User> => (identity, user) => sameId(user.id, identity.user.id),
+
+  /** The resource belongs to the identity, e.g. `isOwner('user_id')` for phone numbers */
+  isOwner: <T>(field: keyof T & string = 'user_id' as keyof T & string): PolicyCondition<T> =>
+    (identity, resource) => sameId((resource as any)?.[field], identity.user.id),
+
+  /** The target user is in the identity's own department */
+  inSameDepartment: (): PolicyCondition<User> => (identity, user) =>
+    sameId(departmentIdOf(user), departmentIdOf(identity.user)),
+
+  /** The identity is the manager of the department */
+  managesDepartment: (): PolicyCondition<Department> => (identity, department) =>
+    sameId(department.manager_id, identity.user.id),
+
+  /** The identity manages the target user's department */
+  managesUser: (): PolicyCondition<User> => (identity, user) => {
+    if (sameId(user.department?.manager_id, identity.user.id)) {
+      return true;
+    }
+    const ownDepartment = identity.user.department;
+    return sameId(ownDepartment?.manager_id, identity.user.id) && sameId(departmentIdOf(user), departmentIdOf(identity.user));
+  },
+};
+
+/**
+ * A set of authorization rules, evaluated locally against a verified identity
+ * @example
+ * ```typescript
+ * const policy = definePolicy((allow, deny) => {
+ *   allow('update', 'User', { permission: 'users.edit' });
+ *   allow('update', 'User', { when: conditions.managesUser() });
+ *   allow('manage', 'UserPhoneNumber', { when: conditions.isOwner('user_id') });
+ *   deny('delete', 'User', { when: conditions.isSelf() });
+ * });
+ *
+ * const ability = policy.for(await iamClient.verifyToken(token));
+ * ability.can('update', 'User', targetUser);
+ * ```
+ */
+export class Policy<Subjects extends Record<string, any> = DefaultPolicySubjects> {
+  private rules: PolicyRule[] = [];
+
+  /**
+   * Allow an action. `'manage'` matches every action and `'all'` every subject
+   */
+  allow<S extends keyof Subjects & string>(
+    action: string | string[],
+    subject: S | S[] | 'all',
+    options: PolicyRuleOptions<Subjects[S]> = {}
+  ): this {
+    this.rules.push({ actions: toArray(action), subjects: toArray<string>(subject), inverted: false, ...options });
+    return this;
+  }
+
+  /**
+   * Deny an action. Deny rules win over allow rules
+   */
+  deny<S extends keyof Subjects & string>(
+    action: string | string[],
+    subject: S | S[] | 'all',
+    options: PolicyRuleOptions<Subjects[S]> = {}
+  ): this {
+    this.rules.push({ actions: toArray(action), subjects: toArray<string>(subject), inverted: true, ...options });
+    return this;
+  }
+
+  /**
+   * Bind the policy to a verified identity (null denies everything)
+   */
+  for(identity: TokenVerificationResponse | null): Ability<Subjects> {
+    return new Ability<Subjects>(identity, this.rules);
+  }
+}
+
+/**
+ * A policy bound to one identity
+ */
+export class Ability<Subjects extends Record<string, any> = DefaultPolicySubjects> {
+  private roleNames: string[];
+
+  constructor(private identity: TokenVerificationResponse | null, private rules: PolicyRule[]) {
+    this.roleNames = collectRoleNames(identity);
+  }
+
+  /**
+   * Check whether the identity may perform the action.
+   * Without a resource, conditions are skipped: "can they update some User?"
+   */
+  can<S extends keyof Subjects & string>(action: string, subject: S, resource?: Subjects[S]): boolean {
+    if (!this.identity) {
+      return false;
+    }
+
+    const matching = this.rules.filter((rule) => this.applies(rule, action, subject));
+    const passes = (rule: PolicyRule) => this.grants(rule, resource);
+
+    // A conditional deny can't be decided without a resource, so it doesn't block the class-level check
+    if (matching.some((rule) => rule.inverted && passes(rule) && (resource !== undefined || !rule.when))) {
+      return false;
+    }
+    return matching.some((rule) => !rule.inverted && passes(rule));
+  }
+
+  /**
+   * Check the action without a resource, counting only unconditional rules: "can they update any User?".
+   * Use it to guard a route when the resource isn't loaded, where a conditional rule can't be decided
+   */
+  canWithoutConditions<S extends keyof Subjects & string>(action: string, subject: S): boolean {
+    if (!this.identity) {
+      return false;
+    }
+
+    const matching = this.rules.filter((rule) => !rule.when && this.applies(rule, action, subject));
+    const passes = (rule: PolicyRule) => this.grants(rule, undefined);
+
+    if (matching.some((rule) => rule.inverted && passes(rule))) {
+      return false;
+    }
+    return matching.some((rule) => !rule.inverted && passes(rule));
+  }
+
+  cannot<S extends keyof Subjects & string>(action: string, subject: S, resource?: Subjects[S]): boolean {
+    return !this.can(action, subject, resource);
+  }
+
+  /**
+   * Throw unless the identity may perform the action
+   * @throws IAMForbiddenError
+   */
+  assert<S extends keyof Subjects & string>(action: string, subject: S, resource?: Subjects[S]): void {
+    if (!this.can(action, subject, resource)) {
+      throw new IAMForbiddenError(`Not allowed to ${action} ${subject}`);
+    }
+  }
+
+  private applies(rule: PolicyRule, action: string, subject: string): boolean {
+    const actionMatches = rule.actions.includes(action) || rule.actions.includes('manage');
+    const subjectMatches = rule.subjects.includes(subject) || rule.subjects.includes('all');
+    return actionMatches && subjectMatches;
+  }
+
+  private grants(rule: PolicyRule, resource: unknown): boolean {
+    const identity = this.identity!;
+
+    const permissions = toArray(rule.permission);
+    if (permissions.length && !permissions.some((permission) => hasPermissionIn(identity.permissions || [], permission))) {
+      return false;
+    }
+
+    const roles = toArray(rule.role);
+    if (roles.length && !roles.some((role) => hasRoleIn(this.roleNames, role))) {
+      return false;
+    }
+
+    if (resource === undefined) {
+      return true;
+    }
+    return toArray(rule.when).every((condition) => condition(identity, resource));
+  }
+}
+
+/**
+ * Build a policy from a rule definition callback
+ */
+export const definePolicy = <Subjects extends Record<string, any> = DefaultPolicySubjects>(
+  define: (allow: Policy<Subjects>['allow'], deny: Policy<Subjects>['deny']) => void
+): Policy<Subjects> => {
+  const policy = new Policy<Subjects>();
+  define(policy.allow.bind(policy), policy.deny.bind(policy));
+  return policy;
+};
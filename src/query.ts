@@ -0,0 +1,36 @@
+import { QueryParams, ResourceQuery } from './types';
+
+/**
+ * Serialize a typed listing query to the parameters the IAM (Laravel) API expects
+ * @example
+ * ```typescript
+ * buildQueryParams({ filter: { status: 'active', department_id: [1, 2] }, sort: ['-date_employed', 'name'], include: ['roles'] });
+ * // { 'filter[status]': 'active', 'filter[department_id]': '1,2', sort: '-date_employed,name', include: 'roles' }
+ * ```
+ */
+export const buildQueryParams = (query: ResourceQuery<object, string, string> | QueryParams = {}): Record<string, any> => {
+  const { filter, sort, include, params, ...rest } = query as ResourceQuery<Record<string, unknown>, string, string>;
+  const result: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined && value !== null) {
+      result[key] = value;
+    }
+  }
+
+  for (const [field, value] of Object.entries(filter ?? {})) {
+    if (value !== undefined && value !== null) {
+      result[`filter[${field}]`] = Array.isArray(value) ? value.join(',') : String(value);
+    }
+  }
+
+  const sortKeys = Array.isArray(sort) ? sort : sort ? [sort] : [];
+  if (sortKeys.length) {
+    result.sort = sortKeys.join(',');
+  }
+  if (include?.length) {
+    result.include = include.join(',');
+  }
+
+  return { ...result, ...params };
+};
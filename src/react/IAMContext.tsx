@@ -1,10 +1,26 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { IAMClient } from '../IAMClient';
-import { User, LoginCredentials, IAMConfig } from '../types';
+import { LocalStorageTokenStore } from '../tokenStore';
+import { collectRoleNames } from '../permissions';
+import {
+  User,
+  LoginCredentials,
+  IAMConfig,
+  TokenStore,
+  PasswordResetRequest,
+  PasswordResetRequestResponse,
+  PasswordResetOtpResponse,
+  ResetPasswordRequest,
+  PasswordResetResponse,
+} from '../types';
 
 interface IAMContextValue {
   client: IAMClient;
   user: User | null;
+  /** Permissions of the signed-in user, including those granted through roles */
+  permissions: string[];
+  /** Role names of the signed-in user */
+  roles: string[];
   token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
@@ -13,6 +29,15 @@ interface IAMContextValue {
   refreshUser: () => Promise<void>;
   hasPermission: (permission: string) => Promise<boolean>;
   hasRole: (role: string) => Promise<boolean>;
+  hasAnyPermission: (permissions: string[]) => Promise<boolean>;
+  hasAllPermissions: (permissions: string[]) => Promise<boolean>;
+  hasAnyRole: (roles: string[]) => Promise<boolean>;
+  hasAllRoles: (roles: string[]) => Promise<boolean>;
+  checkPermissions: (permissions: string[]) => Promise<Record<string, boolean>>;
+  requestPasswordReset: (request: PasswordResetRequest) => Promise<PasswordResetRequestResponse>;
+  verifyPasswordResetOtp: (phone: string, otp: string) => Promise<PasswordResetOtpResponse>;
+  resetPassword: (request: ResetPasswordRequest) => Promise<PasswordResetResponse>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<PasswordResetResponse>;
 }
 
 const IAMContext = createContext<IAMContextValue | undefined>(undefined);
@@ -20,7 +45,10 @@ const IAMContext = createContext<IAMContextValue | undefined>(undefined);
 interface IAMProviderProps {
   config: IAMConfig;
   children: ReactNode;
+  /** localStorage key used when no token store is given */
   tokenStorageKey?: string;
+  /** Where to persist the token (default: config.tokenStore, else localStorage) */
+  tokenStore?: TokenStore;
   onAuthStateChange?: (isAuthenticated: boolean) => void;
 }
 
@@ -28,23 +56,33 @@ export const IAMProvider: React.FC<IAMProviderProps> = ({
   config,
   children,
   tokenStorageKey = 'iam_token',
+  tokenStore,
   onAuthStateChange,
 }) => {
-  const [client] = useState(() => new IAMClient(config));
   const [user, setUser] = useState<User | null>(null);
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [roles, setRoles] = useState<string[]>([]);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [client] = useState(() => new IAMClient({
+    ...config,
+    tokenStore: tokenStore ?? config.tokenStore ?? new LocalStorageTokenStore(tokenStorageKey),
+    onTokenRefresh: (newToken) => {
+      setToken(newToken);
+      config.onTokenRefresh?.(newToken);
+    },
+  }));
 
   // Load token from storage on mount
   useEffect(() => {
-    const storedToken = localStorage.getItem(tokenStorageKey);
-    if (storedToken) {
-      client.setToken(storedToken);
-      setToken(storedToken);
-      verifyAndLoadUser(storedToken);
-    } else {
-      setIsLoading(false);
-    }
+    client.restoreToken().then((storedToken) => {
+      if (storedToken) {
+        setToken(storedToken);
+        verifyAndLoadUser();
+      } else {
+        setIsLoading(false);
+      }
+    });
   }, []);
 
   // Notify auth state changes
@@ -54,10 +92,11 @@ export const IAMProvider: React.FC<IAMProviderProps> = ({
     }
   }, [user, onAuthStateChange]);
 
-  const verifyAndLoadUser = async (authToken: string) => {
+  // Calls below use the client's own token, so `autoRefreshToken` applies to them
+  const verifyAndLoadUser = async () => {
     try {
-      const response = await client.verifyToken(authToken);
-      setUser(response.user);
+      const response = await client.verifyToken();
+      setIdentity(response.user, response.permissions, response.roles);
     } catch (error) {
       console.error('Token verification failed:', error);
       clearAuth();
@@ -73,8 +112,7 @@ export const IAMProvider: React.FC<IAMProviderProps> = ({
       const newToken = response.access_token;
       
       setToken(newToken);
-      setUser(response.user);
-      localStorage.setItem(tokenStorageKey, newToken);
+      setIdentity(response.user, response.permissions || []);
     } catch (error) {
       clearAuth();
       throw error;
@@ -86,7 +124,7 @@ export const IAMProvider: React.FC<IAMProviderProps> = ({
   const logout = async () => {
     try {
       if (token) {
-        await client.logout(token);
+        await client.logout();
       }
     } catch (error) {
       console.error('Logout error:', error);
@@ -95,19 +133,26 @@ export const IAMProvider: React.FC<IAMProviderProps> = ({
     }
   };
 
+  const setIdentity = (newUser: User, newPermissions: string[], roleNames: string[] = []) => {
+    setUser(newUser);
+    setPermissions(newPermissions);
+    setRoles(collectRoleNames({ roles: roleNames, user: newUser }));
+  };
+
   const clearAuth = () => {
     setUser(null);
+    setPermissions([]);
+    setRoles([]);
     setToken(null);
     client.clearToken();
-    localStorage.removeItem(tokenStorageKey);
   };
 
   const refreshUser = async () => {
     if (!token) return;
     
     try {
-      const response = await client.verifyToken(token);
-      setUser(response.user);
+      const response = await client.verifyToken();
+      setIdentity(response.user, response.permissions, response.roles);
     } catch (error) {
       console.error('Failed to refresh user:', error);
       clearAuth();
@@ -116,17 +161,55 @@ export const IAMProvider: React.FC<IAMProviderProps> = ({
 
   const hasPermission = async (permission: string): Promise<boolean> => {
     if (!token) return false;
-    return client.hasPermission(permission, token);
+    return client.hasPermission(permission);
   };
 
   const hasRole = async (role: string): Promise<boolean> => {
     if (!token) return false;
-    return client.hasRole(role, token);
+    return client.hasRole(role);
   };
 
+  const hasAnyPermission = async (permissions: string[]): Promise<boolean> => {
+    if (!token) return false;
+    return client.hasAnyPermission(permissions);
+  };
+
+  const hasAllPermissions = async (permissions: string[]): Promise<boolean> => {
+    if (!token) return false;
+    return client.hasAllPermissions(permissions);
+  };
+
+  const hasAnyRole = async (roles: string[]): Promise<boolean> => {
+    if (!token) return false;
+    return client.hasAnyRole(roles);
+  };
+
+  const hasAllRoles = async (roles: string[]): Promise<boolean> => {
+    if (!token) return false;
+    return client.hasAllRoles(roles);
+  };
+
+  const checkPermissions = async (permissions: string[]): Promise<Record<string, boolean>> => {
+    if (!token) {
+      return Object.fromEntries(permissions.map((permission) => [permission, false]));
+    }
+    return client.checkPermissions(permissions);
+  };
+
+  const requestPasswordReset = (request: PasswordResetRequest) => client.requestPasswordReset(request);
+
+  const verifyPasswordResetOtp = (phone: string, otp: string) => client.verifyPasswordResetOtp(phone, otp);
+
+  const resetPassword = (request: ResetPasswordRequest) => client.resetPassword(request);
+
+  const changePassword = (currentPassword: string, newPassword: string) =>
+    client.changePassword(currentPassword, newPassword);
+
   const value: IAMContextValue = {
     client,
     user,
+    permissions,
+    roles,
     token,
     isAuthenticated: !!user,
     isLoading,
@@ -135,6 +218,15 @@ export const IAMProvider: React.FC<IAMProviderProps> = ({
     refreshUser,
     hasPermission,
     hasRole,
+    hasAnyPermission,
+    hasAllPermissions,
+    hasAnyRole,
+    hasAllRoles,
+    checkPermissions,
+    requestPasswordReset,
+    verifyPasswordResetOtp,
+    resetPassword,
+    changePassword,
   };
 
   return <IAMContext.Provider value={value}>{children}</IAMContext.Provider>;
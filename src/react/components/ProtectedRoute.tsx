@@ -4,8 +4,10 @@ import { useIAM } from '../IAMContext';
 interface ProtectedRouteProps {
   children: ReactNode;
   fallback?: ReactNode;
-  requiredPermission?: string;
-  requiredRole?: string;
+  requiredPermission?: string | string[];
+  requiredRole?: string | string[];
+  /** With lists, require all entries instead of any one of them */
+  requireAll?: boolean;
   redirectTo?: string;
 }
 
@@ -14,9 +16,21 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   fallback = <div>Loading...</div>,
   requiredPermission,
   requiredRole,
+  requireAll = false,
   redirectTo = '/login',
 }) => {
-  const { isAuthenticated, isLoading, hasPermission, hasRole } = useIAM();
+  const {
+    isAuthenticated,
+    isLoading,
+    hasPermission,
+    hasRole,
+    hasAnyPermission,
+    hasAllPermissions,
+    hasAnyRole,
+    hasAllRoles,
+  } = useIAM();
+  const permissionKey = Array.isArray(requiredPermission) ? requiredPermission.join('|') : requiredPermission;
+  const roleKey = Array.isArray(requiredRole) ? requiredRole.join('|') : requiredRole;
   const [hasAccess, setHasAccess] = React.useState<boolean | null>(null);
 
   React.useEffect(() => {
@@ -27,13 +41,27 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
       }
 
       if (requiredPermission) {
-        const permitted = await hasPermission(requiredPermission);
+        let permitted: boolean;
+        if (!Array.isArray(requiredPermission)) {
+          permitted = await hasPermission(requiredPermission);
+        } else if (requireAll) {
+          permitted = await hasAllPermissions(requiredPermission);
+        } else {
+          permitted = await hasAnyPermission(requiredPermission);
+        }
         setHasAccess(permitted);
         return;
       }
 
       if (requiredRole) {
-        const hasRequiredRole = await hasRole(requiredRole);
+        let hasRequiredRole: boolean;
+        if (!Array.isArray(requiredRole)) {
+          hasRequiredRole = await hasRole(requiredRole);
+        } else if (requireAll) {
+          hasRequiredRole = await hasAllRoles(requiredRole);
+        } else {
+          hasRequiredRole = await hasAnyRole(requiredRole);
+        }
         setHasAccess(hasRequiredRole);
         return;
       }
@@ -42,7 +70,7 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     };
 
     checkAccess();
-  }, [isAuthenticated, requiredPermission, requiredRole, hasPermission, hasRole]);
+  }, [isAuthenticated, permissionKey, roleKey, requireAll, hasPermission, hasRole, hasAnyPermission, hasAllPermissions, hasAnyRole, hasAllRoles]);
 
   if (isLoading || hasAccess === null) {
     return <>{fallback}</>;
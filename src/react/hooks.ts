@@ -1,19 +1,47 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useIAM } from './IAMContext';
-import { User, Department, Position, PaginatedResponse, QueryParams } from '../types';
+import { Ability, Policy } from '../policy';
+import { ParsedPhoneNumber } from '../phone';
+import {
+  User,
+  Department,
+  Position,
+  Role,
+  Permission,
+  PaginatedResponse,
+  UserQuery,
+  DepartmentQuery,
+  PositionQuery,
+  RoleQuery,
+  PermissionQuery,
+} from '../types';
+
+export interface AccessCheckOptions {
+  /** With a list, require any (default) or all of the entries */
+  mode?: 'any' | 'all';
+}
 
 /**
- * Hook to check if user has a specific permission
+ * Hook to check if user has a specific permission, or any/all of a list of permissions
  */
-export const usePermission = (permission: string): boolean => {
-  const { hasPermission } = useIAM();
+export const usePermission = (permission: string | string[], options: AccessCheckOptions = {}): boolean => {
+  const { hasPermission, hasAnyPermission, hasAllPermissions } = useIAM();
   const [hasAccess, setHasAccess] = useState(false);
+  const mode = options.mode ?? 'any';
+  const key = Array.isArray(permission) ? permission.join('|') : permission;
 
   useEffect(() => {
     let mounted = true;
 
     const checkPermission = async () => {
-      const result = await hasPermission(permission);
+      let result: boolean;
+      if (!Array.isArray(permission)) {
+        result = await hasPermission(permission);
+      } else if (mode === 'all') {
+        result = await hasAllPermissions(permission);
+      } else {
+        result = await hasAnyPermission(permission);
+      }
       if (mounted) {
         setHasAccess(result);
       }
@@ -24,23 +52,32 @@ export const usePermission = (permission: string): boolean => {
     return () => {
       mounted = false;
     };
-  }, [permission, hasPermission]);
+  }, [key, mode, hasPermission, hasAnyPermission, hasAllPermissions]);
 
   return hasAccess;
 };
 
 /**
- * Hook to check if user has a specific role
+ * Hook to check if user has a specific role, or any/all of a list of roles
  */
-export const useRole = (role: string): boolean => {
-  const { hasRole } = useIAM();
+export const useRole = (role: string | string[], options: AccessCheckOptions = {}): boolean => {
+  const { hasRole, hasAnyRole, hasAllRoles } = useIAM();
   const [hasAccess, setHasAccess] = useState(false);
+  const mode = options.mode ?? 'any';
+  const key = Array.isArray(role) ? role.join('|') : role;
 
   useEffect(() => {
     let mounted = true;
 
     const checkRole = async () => {
-      const result = await hasRole(role);
+      let result: boolean;
+      if (!Array.isArray(role)) {
+        result = await hasRole(role);
+      } else if (mode === 'all') {
+        result = await hasAllRoles(role);
+      } else {
+        result = await hasAnyRole(role);
+      }
       if (mounted) {
         setHasAccess(result);
       }
@@ -51,15 +88,60 @@ export const useRole = (role: string): boolean => {
     return () => {
       mounted = false;
     };
-  }, [role, hasRole]);
+  }, [key, mode, hasRole, hasAnyRole, hasAllRoles]);
 
   return hasAccess;
 };
 
+/**
+ * Hook to bind a policy to the signed-in user
+ * @example
+ * ```tsx
+ * const ability = useAbility(policy);
+ * return ability.can('update', 'User', employee) ? <EditButton /> : null;
+ * ```
+ */
+export const useAbility = <Subjects extends Record<string, any>>(policy: Policy<Subjects>): Ability<Subjects> => {
+  const { user, permissions, roles } = useIAM();
+
+  return useMemo(
+    () => policy.for(user ? { user, permissions, roles } : null),
+    [policy, user, permissions, roles]
+  );
+};
+
+/**
+ * Hook to validate a phone number field with the client's `phoneNumbers` rules
+ * @returns The parsed number (null with `phoneNumbers: false`), and the validation message once something invalid is typed
+ * @example
+ * ```tsx
+ * const [phone, setPhone] = useState('');
+ * const { isValid, error, parsed } = usePhoneNumber(phone);
+ * return (
+ *   <>
+ *     <input value={phone} onChange={(e) => setPhone(e.target.value)} />
+ *     {error && <span>{error}</span>}
+ *     <button disabled={!isValid} onClick={() => sendOtp({ phone })}>Send code</button>
+ *   </>
+ * );
+ * ```
+ */
+export const usePhoneNumber = (
+  value: string
+): { parsed: ParsedPhoneNumber | null; isValid: boolean; error: string | null } => {
+  const { client } = useIAM();
+
+  return useMemo(() => {
+    const typed = value.trim() !== '';
+    const error = typed ? client.getPhoneNumberError(value) : null;
+    return { parsed: client.parsePhoneNumber(value), isValid: typed && error === null, error };
+  }, [client, value]);
+};
+
 /**
  * Hook to fetch users with pagination
  */
-export const useUsers = (params?: QueryParams) => {
+export const useUsers = (params?: UserQuery) => {
   const { client } = useIAM();
   const [users, setUsers] = useState<PaginatedResponse<User> | null>(null);
   const [loading, setLoading] = useState(true);
@@ -146,7 +228,7 @@ export const useUser = (userId: string | number | null) => {
 /**
  * Hook to fetch departments with pagination
  */
-export const useDepartments = (params?: QueryParams) => {
+export const useDepartments = (params?: DepartmentQuery) => {
   const { client } = useIAM();
   const [departments, setDepartments] = useState<PaginatedResponse<Department> | null>(null);
   const [loading, setLoading] = useState(true);
@@ -187,7 +269,7 @@ export const useDepartments = (params?: QueryParams) => {
 /**
  * Hook to fetch positions with pagination
  */
-export const usePositions = (params?: QueryParams) => {
+export const usePositions = (params?: PositionQuery) => {
   const { client } = useIAM();
   const [positions, setPositions] = useState<PaginatedResponse<Position> | null>(null);
   const [loading, setLoading] = useState(true);
@@ -224,3 +306,131 @@ export const usePositions = (params?: QueryParams) => {
 
   return { positions, loading, error };
 };
+
+/**
+ * Hook to fetch roles with pagination
+ */
+export const useRoles = (params?: RoleQuery) => {
+  const { client } = useIAM();
+  const [roles, setRoles] = useState<PaginatedResponse<Role> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchRoles = async () => {
+      try {
+        setLoading(true);
+        const data = await client.getRoles(params);
+        if (mounted) {
+          setRoles(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err as Error);
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchRoles();
+
+    return () => {
+      mounted = false;
+    };
+  }, [client, JSON.stringify(params)]);
+
+  return { roles, loading, error };
+};
+
+/**
+ * Hook to fetch permissions with pagination
+ */
+export const usePermissions = (params?: PermissionQuery) => {
+  const { client } = useIAM();
+  const [permissions, setPermissions] = useState<PaginatedResponse<Permission> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchPermissions = async () => {
+      try {
+        setLoading(true);
+        const data = await client.getPermissions(params);
+        if (mounted) {
+          setPermissions(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err as Error);
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchPermissions();
+
+    return () => {
+      mounted = false;
+    };
+  }, [client, JSON.stringify(params)]);
+
+  return { permissions, loading, error };
+};
+
+/**
+ * Hook to fetch the users holding a role
+ */
+export const useUsersByRole = (roleId: string | number | null) => {
+  const { client } = useIAM();
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!roleId) {
+      setLoading(false);
+      return;
+    }
+
+    let mounted = true;
+
+    const fetchUsers = async () => {
+      try {
+        setLoading(true);
+        const data = await client.getUsersByRole(roleId);
+        if (mounted) {
+          setUsers(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err as Error);
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchUsers();
+
+    return () => {
+      mounted = false;
+    };
+  }, [client, roleId]);
+
+  return { users, loading, error };
+};
@@ -1,3 +1,16 @@
 export { IAMProvider, useIAM } from './IAMContext';
-export { usePermission, useRole, useUsers, useUser, useDepartments, usePositions } from './hooks';
+export {
+  usePermission,
+  useRole,
+  useAbility,
+  usePhoneNumber,
+  useUsers,
+  useUser,
+  useDepartments,
+  usePositions,
+  useRoles,
+  usePermissions,
+  useUsersByRole,
+} from './hooks';
+export type { AccessCheckOptions } from './hooks';
 export { ProtectedRoute } from './components/ProtectedRoute';
@@ -0,0 +1,270 @@
+import type {
+  Department,
+  LoginResponse,
+  PaginatedResponse,
+  Permission,
+  PhoneVerificationResponse,
+  Position,
+  RefreshTokenResponse,
+  Role,
+  SendOtpResponse,
+  TokenVerificationResponse,
+  User,
+  UserPhoneNumber,
+} from './types';
+
+/**
+ * One mismatch between a response and its schema
+ */
+export interface SchemaIssue {
+  /** Location of the field, e.g. `user.roles[0].name` (empty for the body itself) */
+  path: string;
+  /** Expected type, e.g. `string`, `Department[]` */
+  expected: string;
+  /** What the response contained: a type name, `null` or `missing` */
+  received: string;
+}
+
+/**
+ * A response that does not match its schema, as passed to `onSchemaDrift`
+ */
+export interface SchemaDrift {
+  /** Schema the response was checked against, e.g. `User` or `PaginatedResponse<Department>` */
+  schema: string;
+  /** The client operation, e.g. `getUser` */
+  operation: string;
+  issues: SchemaIssue[];
+  /** The (unwrapped) response body */
+  data: unknown;
+}
+
+/**
+ * Runtime description of a response type
+ */
+export interface Schema<T> {
+  readonly name: string;
+  /** Append the issues found in `value` to `issues`, reported under `path` */
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  /** Type carrier only, never set */
+  readonly type?: T;
+}
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+const join = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const primitive = <T>(name: string, test: (value: unknown) => boolean): Schema<T> => ({
+  name,
+  check(value, path, issues) {
+    if (!test(value)) {
+      issues.push({ path, expected: name, received: describe(value) });
+    }
+  },
+});
+
+const string = primitive<string>('string', (value) => typeof value === 'string');
+const number = primitive<number>('number', (value) => typeof value === 'number' && Number.isFinite(value));
+const boolean = primitive<boolean>('boolean', (value) => typeof value === 'boolean');
+const id = primitive<string | number>('string | number', (value) => typeof value === 'string' || typeof value === 'number');
+
+/**
+ * Optional fields may be absent or null: Laravel serializes unset attributes as null
+ */
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  name: `${schema.name}?`,
+  check(value, path, issues) {
+    if (value !== undefined && value !== null) {
+      schema.check(value, path, issues);
+    }
+  },
+});
+
+const union = <A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> => ({
+  name: `${a.name} | ${b.name}`,
+  check(value, path, issues) {
+    const first: SchemaIssue[] = [];
+    a.check(value, path, first);
+    if (!first.length) {
+      return;
+    }
+    const second: SchemaIssue[] = [];
+    b.check(value, path, second);
+    if (second.length) {
+      issues.push({ path, expected: `${a.name} | ${b.name}`, received: describe(value) });
+    }
+  },
+});
+
+const array = <T>(item: Schema<T>): Schema<T[]> => {
+  const name = item.name.includes(' ') ? `(${item.name})[]` : `${item.name}[]`;
+  return {
+    name,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: name, received: describe(value) });
+        return;
+      }
+      value.forEach((entry, index) => item.check(entry, join(path, index), issues));
+    },
+  };
+};
+
+/**
+ * Object schema; fields not listed are allowed
+ */
+const object = <T>(name: string, shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => ({
+  name,
+  check(value, path, issues) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, expected: name, received: describe(value) });
+      return;
+    }
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      shape[key].check((value as Record<string, unknown>)[key], join(path, key), issues);
+    }
+  },
+});
+
+const permissionSchema = object<Permission>('Permission', { id, name: string });
+
+const roleSchema = object<Role>('Role', {
+  id,
+  name: string,
+  permissions: optional(array(union(string, permissionSchema))) as Schema<Permission[] | undefined>,
+});
+
+const departmentSchema = object<Department>('Department', {
+  id,
+  name: string,
+  description: optional(string),
+  parent_department_id: optional(id),
+  manager_id: optional(id),
+});
+
+const positionSchema = object<Position>('Position', {
+  id,
+  department_id: id,
+  title: string,
+  description: optional(string),
+  level: optional(string),
+  salary_min: optional(number),
+  salary_max: optional(number),
+  reports_to_position_id: optional(id),
+});
+
+const userPhoneNumberSchema = object<UserPhoneNumber>('UserPhoneNumber', {
+  id: string,
+  user_id: string,
+  phone: string,
+  label: optional(string),
+  is_primary: boolean,
+  is_verified: boolean,
+  verified_at: optional(string),
+  created_at: string,
+  updated_at: string,
+});
+
+const optionalString = optional(string);
+
+const userSchema = object<User>('User', {
+  id,
+  name: string,
+  email: string,
+  phone: optionalString,
+  phone_verified: optional(boolean),
+  phone_verified_at: optionalString,
+  preferred_login_method: optionalString as Schema<User['preferred_login_method']>,
+  status: optionalString,
+  employee_id: optionalString,
+  first_name: optionalString,
+  surname: optionalString,
+  middle_name: optionalString,
+  date_of_birth: optionalString,
+  gender: optionalString,
+  site_location: optionalString,
+  company: optionalString,
+  date_employed: optionalString,
+  profile_photo_url: optionalString,
+  blood_group: optionalString,
+  allergies: optionalString,
+  chronic_conditions: optionalString,
+  emergency_contact_name: optionalString,
+  emergency_contact_phone: optionalString,
+  // Roles may be serialized as names only
+  roles: optional(array(union(string, roleSchema))) as Schema<Role[] | undefined>,
+  department: optional(departmentSchema),
+  department_id: optional(id),
+  departments: optional(array(departmentSchema)),
+  positions: optional(array(positionSchema)),
+  phone_numbers: optional(array(userPhoneNumberSchema)),
+});
+
+/**
+ * Schemas of the IAM responses checked by `responseValidation`
+ */
+export const schemas = {
+  user: userSchema,
+  department: departmentSchema,
+  position: positionSchema,
+  userPhoneNumber: userPhoneNumberSchema,
+  role: roleSchema,
+  permission: permissionSchema,
+  loginResponse: object<LoginResponse>('LoginResponse', {
+    access_token: string,
+    token_type: string,
+    expires_in: number,
+    user: userSchema,
+    permissions: optional(array(string)),
+  }),
+  tokenVerification: object<TokenVerificationResponse>('TokenVerificationResponse', {
+    user: userSchema,
+    permissions: array(string),
+    roles: array(string),
+  }),
+  refreshToken: object<RefreshTokenResponse>('RefreshTokenResponse', {
+    access_token: string,
+    token_type: string,
+    expires_in: number,
+  }),
+  sendOtp: object<SendOtpResponse>('SendOtpResponse', { message: string, expires_at: string, phone: string }),
+  phoneVerification: object<PhoneVerificationResponse>('PhoneVerificationResponse', {
+    message: string,
+    phone_verified: boolean,
+    phone_verified_at: string,
+  }),
+};
+
+/**
+ * Schema for a list of items
+ */
+export const listSchema = <T>(item: Schema<T>): Schema<T[]> => array(item);
+
+/**
+ * Schema for a normalized page of items (see toPaginatedResponse())
+ */
+export const pageSchema = <T>(item: Schema<T>): Schema<PaginatedResponse<T>> => ({
+  name: `PaginatedResponse<${item.name}>`,
+  check(value, path, issues) {
+    array(item).check((value as PaginatedResponse<T>).data, join(path, 'data'), issues);
+  },
+});
+
+/**
+ * Check a value against a schema
+ * @returns The mismatches, empty when the value matches
+ * @example
+ * ```typescript
+ * validateSchema(schemas.user, { id: 1, name: 'Ama', email: null });
+ * // [{ path: 'email', expected: 'string', received: 'null' }]
+ * ```
+ */
+export const validateSchema = <T>(schema: Schema<T>, value: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, '', issues);
+  return issues;
+};
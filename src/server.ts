@@ -0,0 +1,250 @@
+import type { IAMClient } from './IAMClient';
+import { parseCookies } from './cookies';
+import { IAMAuthenticationError, IAMError, IAMForbiddenError, IAMRateLimitError } from './errors';
+import { collectRoleNames, hasPermissionIn, hasRoleIn } from './permissions';
+import { TokenVerificationResponse, User } from './types';
+
+export { parseCookies } from './cookies';
+
+/**
+ * Verified identity attached to an incoming request by the server integrations
+ */
+export interface IAMRequestContext {
+  user: User;
+  permissions: string[];
+  roles: string[];
+  token: string;
+}
+
+/**
+ * Where to look for the access token on an incoming request
+ * - `'header'`: `Authorization: Bearer <token>`
+ * - `{ header, scheme }`: a custom header, with an optional scheme prefix
+ * - `{ cookie }`: a cookie
+ * - `{ query }`: a query string parameter
+ */
+export type TokenSource = 'header' | { header: string; scheme?: string } | { cookie: string } | { query: string };
+
+/**
+ * Framework-specific accessors used to read a token from a request
+ */
+export interface RequestAccessors {
+  header(name: string): string | null | undefined;
+  cookie(name: string): string | null | undefined;
+  query(name: string): string | null | undefined;
+  /** Every cookie on the request, forwarded to verifySession() for session auth */
+  cookies?(): Record<string, string>;
+}
+
+/**
+ * Permission and role requirements for a route
+ */
+export interface AuthRequirements {
+  permissions?: string | string[];
+  roles?: string | string[];
+  /** Whether any (default) or all of the listed permissions/roles are required */
+  mode?: 'any' | 'all';
+}
+
+/**
+ * Why a request was rejected
+ */
+export interface AuthFailure {
+  status: 401 | 403 | 429 | 503;
+  error: 'unauthenticated' | 'forbidden' | 'rate_limited' | 'unavailable';
+  message: string;
+  /** The permissions or roles that were required, for 403 responses */
+  required?: string[];
+}
+
+export type ErrorFormatter = (failure: AuthFailure) => unknown;
+
+/**
+ * Default JSON body for rejected requests: `{ error, message, required? }`
+ */
+export const defaultErrorFormatter: ErrorFormatter = ({ error, message, required }) =>
+  required ? { error, message, required } : { error, message };
+
+const stripScheme = (value: string | null | undefined, scheme?: string): string | null => {
+  if (!value) {
+    return null;
+  }
+  if (!scheme) {
+    return value.trim() || null;
+  }
+  const prefix = `${scheme.toLowerCase()} `;
+  return value.toLowerCase().startsWith(prefix) ? value.substring(prefix.length).trim() || null : null;
+};
+
+/**
+ * Read the token from the first source that has one
+ */
+export const extractToken = (sources: TokenSource[], accessors: RequestAccessors): string | null => {
+  for (const source of sources) {
+    let token: string | null = null;
+
+    if (source === 'header') {
+      token = stripScheme(accessors.header('authorization'), 'Bearer');
+    } else if ('header' in source) {
+      token = stripScheme(accessors.header(source.header.toLowerCase()), source.scheme);
+    } else if ('cookie' in source) {
+      token = accessors.cookie(source.cookie) || null;
+    } else if ('query' in source) {
+      token = accessors.query(source.query) || null;
+    }
+
+    if (token) {
+      return token;
+    }
+  }
+  return null;
+};
+
+const toList = (value: string | string[] | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Build the request context from a verification result
+ */
+export const toRequestContext = (verification: TokenVerificationResponse, token: string): IAMRequestContext => ({
+  user: verification.user,
+  permissions: verification.permissions || [],
+  roles: collectRoleNames(verification),
+  token,
+});
+
+/**
+ * Check a verified identity against route requirements
+ * @returns null when allowed, otherwise the 403 failure
+ */
+export const checkRequirements = (context: IAMRequestContext, requirements: AuthRequirements): AuthFailure | null => {
+  const mode = requirements.mode ?? 'any';
+  const permissions = toList(requirements.permissions);
+  const roles = toList(requirements.roles);
+
+  if (permissions.length) {
+    const check = (permission: string) => hasPermissionIn(context.permissions, permission);
+    const allowed = mode === 'all' ? permissions.every(check) : permissions.some(check);
+    if (!allowed) {
+      return { status: 403, error: 'forbidden', message: 'Insufficient permissions', required: permissions };
+    }
+  }
+
+  if (roles.length) {
+    const check = (role: string) => hasRoleIn(context.roles, role);
+    const allowed = mode === 'all' ? roles.every(check) : roles.some(check);
+    if (!allowed) {
+      return { status: 403, error: 'forbidden', message: 'Insufficient role', required: roles };
+    }
+  }
+
+  return null;
+};
+
+/** IAM statuses that mean the credential itself was rejected */
+const INVALID_CREDENTIAL_STATUSES = [400, 401, 404, 422];
+
+/**
+ * Map an error thrown while verifying a request to a failure response. Throttling by the IAM is passed on
+ * as 429; any other error the IAM didn't attribute to the credential means it is unavailable
+ */
+export const toAuthFailure = (error: unknown): AuthFailure => {
+  if (error instanceof IAMForbiddenError) {
+    return { status: 403, error: 'forbidden', message: error.message };
+  }
+  if (error instanceof IAMRateLimitError) {
+    return { status: 429, error: 'rate_limited', message: 'Too many authentication attempts' };
+  }
+  if (error instanceof IAMAuthenticationError || (error instanceof IAMError && INVALID_CREDENTIAL_STATUSES.includes(error.statusCode ?? 0))) {
+    return { status: 401, error: 'unauthenticated', message: 'Invalid or expired token' };
+  }
+  return { status: 503, error: 'unavailable', message: 'Authentication service unavailable' };
+};
+
+/**
+ * Failure for requests that carry no token
+ */
+export const missingTokenFailure = (): AuthFailure => ({
+  status: 401,
+  error: 'unauthenticated',
+  message: 'No token provided',
+});
+
+/**
+ * Options for authenticateRequest()
+ */
+export interface CredentialOptions {
+  /** Where to read the token from, in order */
+  tokenSources: TokenSource[];
+  /** Session cookie verified with verifySession() when no token is found (default: none) */
+  sessionCookie?: string | false;
+}
+
+/**
+ * The verified identity of a request and where it came from, or why the request was rejected
+ */
+export type RequestAuthentication =
+  | { context: IAMRequestContext; source: 'token' | 'session'; failure?: undefined }
+  | { context?: undefined; source?: undefined; failure: AuthFailure };
+
+/**
+ * Read the request's token (or session cookie) and verify it. Shared by the server integrations, which only
+ * supply the accessors; verifyToken() and verifySession() caching applies across requests
+ */
+export const authenticateRequest = async (
+  client: IAMClient,
+  accessors: RequestAccessors,
+  options: CredentialOptions
+): Promise<RequestAuthentication> => {
+  const token = extractToken(options.tokenSources, accessors);
+  // The whole cookie jar is forwarded with the session, as the browser would send it
+  const cookies = !token && options.sessionCookie ? accessors.cookies?.() ?? {} : {};
+  const session = options.sessionCookie ? cookies[options.sessionCookie] : undefined;
+
+  if (!token && !session) {
+    return { failure: missingTokenFailure() };
+  }
+
+  try {
+    return token
+      ? { context: toRequestContext(await client.verifyToken(token), token), source: 'token' }
+      : { context: toRequestContext(await client.verifySession(cookies), session!), source: 'session' };
+  } catch (error) {
+    return { failure: toAuthFailure(error) };
+  }
+};
+
+/**
+ * Whether optional auth lets a failed request through. Missing or invalid credentials do;
+ * an unreachable IAM service is still surfaced
+ */
+export const passesOptionalAuth = (failure: AuthFailure, optional?: boolean): boolean =>
+  !!optional && failure.status === 401;
+
+/**
+ * A Node.js-style request: raw `headers`, plus `cookies` and `query` when the framework has parsed them
+ */
+export interface NodeRequestLike {
+  headers?: Record<string, string | string[] | undefined>;
+  cookies?: Record<string, string>;
+  query?: unknown;
+}
+
+/**
+ * Accessors for Node.js-style requests (Fastify, NestJS, Passport)
+ */
+export const nodeRequestAccessors = (request: NodeRequestLike): Required<RequestAccessors> => {
+  const cookies = () => request.cookies ?? parseCookies(request.headers?.cookie as string | undefined);
+  return {
+    header: (name) => {
+      const value = request.headers?.[name];
+      return Array.isArray(value) ? value[0] : value;
+    },
+    cookie: (name) => cookies()[name],
+    cookies,
+    query: (name) => {
+      const value = (request.query as Record<string, unknown> | undefined)?.[name];
+      return typeof value === 'string' ? value : undefined;
+    },
+  };
+};
@@ -0,0 +1,121 @@
+import { TokenStore } from './types';
+
+/**
+ * Keeps the token in memory for the lifetime of the process
+ */
+export class MemoryTokenStore implements TokenStore {
+  private token: string | null = null;
+
+  async get(): Promise<string | null> {
+    return this.token;
+  }
+
+  async set(token: string): Promise<void> {
+    this.token = token;
+  }
+
+  async clear(): Promise<void> {
+    this.token = null;
+  }
+}
+
+/**
+ * Base for stores backed by the Web Storage API. No-ops where it is unavailable (SSR)
+ */
+abstract class WebStorageTokenStore implements TokenStore {
+  constructor(private key: string) {}
+
+  protected abstract getStorage(): Storage | undefined;
+
+  async get(): Promise<string | null> {
+    return this.getStorage()?.getItem(this.key) ?? null;
+  }
+
+  async set(token: string): Promise<void> {
+    this.getStorage()?.setItem(this.key, token);
+  }
+
+  async clear(): Promise<void> {
+    this.getStorage()?.removeItem(this.key);
+  }
+}
+
+/**
+ * Persists the token in `localStorage` (survives browser restarts)
+ */
+export class LocalStorageTokenStore extends WebStorageTokenStore {
+  constructor(key: string = 'iam_token') {
+    super(key);
+  }
+
+  protected getStorage(): Storage | undefined {
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  }
+}
+
+/**
+ * Persists the token in `sessionStorage` (cleared when the tab closes, e.g. kiosks)
+ */
+export class SessionStorageTokenStore extends WebStorageTokenStore {
+  constructor(key: string = 'iam_token') {
+    super(key);
+  }
+
+  protected getStorage(): Storage | undefined {
+    return typeof window !== 'undefined' ? window.sessionStorage : undefined;
+  }
+}
+
+export interface CookieTokenStoreOptions {
+  name?: string;
+  path?: string;
+  domain?: string;
+  /** Cookie lifetime in seconds (default: session cookie) */
+  maxAge?: number;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Persists the token in a browser cookie readable by sibling subdomains when `domain` is set
+ */
+export class CookieTokenStore implements TokenStore {
+  private options: CookieTokenStoreOptions & { name: string; path: string };
+
+  constructor(options: CookieTokenStoreOptions = {}) {
+    this.options = {
+      name: 'iam_token',
+      path: '/',
+      sameSite: 'Lax',
+      ...options,
+    };
+  }
+
+  async get(): Promise<string | null> {
+    if (typeof document === 'undefined') return null;
+
+    const prefix = `${this.options.name}=`;
+    const cookie = document.cookie.split('; ').find((part) => part.startsWith(prefix));
+    return cookie ? decodeURIComponent(cookie.substring(prefix.length)) : null;
+  }
+
+  async set(token: string): Promise<void> {
+    this.write(encodeURIComponent(token), this.options.maxAge);
+  }
+
+  async clear(): Promise<void> {
+    this.write('', 0);
+  }
+
+  private write(value: string, maxAge?: number): void {
+    if (typeof document === 'undefined') return;
+
+    const { name, path, domain, secure, sameSite } = this.options;
+    const attributes = [`${name}=${value}`, `path=${path}`];
+    if (domain) attributes.push(`domain=${domain}`);
+    if (maxAge !== undefined) attributes.push(`max-age=${maxAge}`);
+    if (sameSite) attributes.push(`samesite=${sameSite}`);
+    if (secure || sameSite === 'None') attributes.push('secure');
+    document.cookie = attributes.join('; ');
+  }
+}
@@ -1,11 +1,140 @@
+import type { CacheStore } from './cache';
+import type { SchemaDrift } from './schema';
+import type { PhoneCountryRules } from './phone';
+
+/**
+ * Local JWT verification against the IAM signing keys
+ */
+export interface JwtVerificationOptions {
+  /** JWKS endpoint, absolute or relative to baseUrl (default: '/.well-known/jwks.json') */
+  jwksUri?: string;
+  /** Accepted `iss` claim values */
+  issuer?: string | string[];
+  /** Accepted `aud` claim values */
+  audience?: string | string[];
+  /** Accepted signing algorithms (default: ['RS256']) */
+  algorithms?: string[];
+  /** Allowed clock skew for `exp` and `nbf`, in seconds (default: 0) */
+  clockTolerance?: number;
+  /** How long the key set is cached, in milliseconds (default: 600000) */
+  jwksCacheTtl?: number;
+  /**
+   * Build the verified identity from the token claims. Return null to fall back to /auth/me.
+   * Defaults to the `user`, `permissions` and `roles` claims
+   */
+  mapClaims?: (claims: Record<string, any>) => TokenVerificationResponse | null;
+}
+
+/**
+ * Cookie-based (Laravel Sanctum stateful) session settings
+ */
+export interface SessionOptions {
+  /** Session cookie name (default: 'laravel_session') */
+  cookieName?: string;
+  /** Endpoint returning the session's identity, absolute or relative to baseUrl (default: '/auth/me') */
+  endpoint?: string;
+  /** CSRF cookie endpoint; paths are resolved against the baseUrl origin (default: '/sanctum/csrf-cookie') */
+  csrfEndpoint?: string;
+  /** Cookie holding the CSRF token (default: 'XSRF-TOKEN') */
+  xsrfCookieName?: string;
+  /** Header the CSRF token is sent in (default: 'X-XSRF-TOKEN') */
+  xsrfHeaderName?: string;
+}
+
+/**
+ * Persistent storage for the access token
+ */
+export interface TokenStore {
+  get(): Promise<string | null>;
+  set(token: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
 export interface IAMConfig {
   baseUrl: string;
   timeout?: number;
   verifySSL?: boolean;
   onTokenRefresh?: (token: string) => void;
   onAuthError?: (error: Error) => void;
+  /**
+   * Refresh the token once on a 401 and replay the failed requests with the new token.
+   * Requests issued while the refresh is in flight wait for it (default: false)
+   */
+  autoRefreshToken?: boolean;
+  /**
+   * Refresh the token ahead of its `expires_in` expiry (default: false)
+   */
+  refreshBeforeExpiry?: boolean;
+  /**
+   * How long before expiry to refresh, in milliseconds (default: 60000).
+   * Tokens that live shorter than twice this are refreshed halfway through their lifetime
+   */
+  tokenRefreshLeadTime?: number;
+  /**
+   * Where to persist the token (default: in memory only)
+   */
+  tokenStore?: TokenStore;
+  /**
+   * How long verifyToken() results are cached, in milliseconds. Never longer than the token's own expiry; 0 disables caching (default: 60000)
+   */
+  cacheTtl?: number;
+  /**
+   * Maximum number of cached verifications in the default in-memory cache (default: 1000)
+   */
+  cacheMaxEntries?: number;
+  /**
+   * Cache backend for verifyToken() results (default: in-memory LRU). Keys are SHA-256 hashes of the token
+   */
+  cacheStore?: CacheStore<TokenVerificationResponse>;
+  /**
+   * Shared server-side client: login, refresh and logout never change the client's own token.
+   * Use withToken() for per-request calls (default: false)
+   */
+  serverMode?: boolean;
+  /**
+   * Verify JWTs locally against the IAM signing keys (JWKS) instead of calling /auth/me.
+   * Tokens that are not JWTs, or whose claims lack the identity, still use /auth/me
+   */
+  jwtVerification?: JwtVerificationOptions;
+  /**
+   * How hasPermission()/hasRole() are answered: 'remote' asks the IAM service on every call,
+   * 'local' evaluates the cached verifyToken() result (default: 'remote')
+   */
+  permissionCheckMode?: 'remote' | 'local';
+  /**
+   * Session cookie, endpoint and CSRF settings for verifySession(), csrfCookie() and withSession()
+   */
+  session?: SessionOptions;
+  /**
+   * Send cookies on cross-origin browser requests, e.g. from an SPA on a sibling subdomain.
+   * Mutating requests then run the CSRF cookie handshake first and send the CSRF header (default: false)
+   */
+  withCredentials?: boolean;
+  /**
+   * Check responses against the User, Department, Position, UserPhoneNumber and auth response schemas at runtime.
+   * 'strict' throws an IAMSchemaError, 'report' passes the mismatches to `onSchemaDrift` and returns the data anyway (default: 'off')
+   */
+  responseValidation?: ResponseValidationMode;
+  /**
+   * Called with the mismatches found in 'report' mode (default: console.warn)
+   */
+  onSchemaDrift?: (drift: SchemaDrift) => void;
+  /**
+   * Validate and normalize the phone numbers passed to the OTP, phone verification, phone number and
+   * password reset methods before sending them. false sends them unchanged (default: Ghana rules, local format)
+   */
+  phoneNumbers?: PhoneNumberOptions | false;
+}
+
+export interface PhoneNumberOptions {
+  /** Numbering plan (default: GHANA_PHONE_RULES) */
+  rules?: PhoneCountryRules;
+  /** Format sent to the IAM API (default: 'local', e.g. '0248048753') */
+  format?: 'local' | 'e164';
 }
 
+export type ResponseValidationMode = 'off' | 'strict' | 'report';
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -13,7 +142,7 @@ export interface LoginCredentials {
 
 /**
  * Phone login credentials
- * @property phone - 10-digit phone number starting with 0 (e.g., "0248048753")
+ * @property phone - Phone number, local or international (e.g., "0248048753", "+233 24 804 8753")
  * @property otp - 4-digit OTP code
  * @property device_name - Optional device identifier
  */
@@ -25,7 +154,7 @@ export interface PhoneLoginCredentials {
 
 /**
  * Send OTP request
- * @property phone - 10-digit phone number starting with 0 (e.g., "0248048753")
+ * @property phone - Phone number, local or international (e.g., "0248048753", "+233 24 804 8753")
  * @property purpose - Purpose of the OTP (default: 'login')
  */
 export interface SendOtpRequest {
@@ -39,6 +168,43 @@ export interface SendOtpResponse {
   phone: string;
 }
 
+/**
+ * Start a password reset: email users get a reset link, phone users an OTP
+ */
+export type PasswordResetRequest = { email: string } | { phone: string };
+
+export interface PasswordResetRequestResponse {
+  message: string;
+  /** OTP expiry, for phone resets */
+  expires_at?: string;
+  phone?: string;
+}
+
+/**
+ * Verified password reset OTP, exchanged for a reset token
+ */
+export interface PasswordResetOtpResponse {
+  message: string;
+  reset_token: string;
+}
+
+/**
+ * Finish a password reset with the emailed token, the verified OTP's reset token, or the OTP itself
+ * @property password_confirmation - Defaults to `password`
+ */
+export type ResetPasswordRequest = (
+  | { email: string; token: string }
+  | { phone: string; token: string }
+  | { phone: string; otp: string }
+) & {
+  password: string;
+  password_confirmation?: string;
+};
+
+export interface PasswordResetResponse {
+  message: string;
+}
+
 export interface LoginResponse {
   access_token: string;
   token_type: string;
@@ -122,6 +288,11 @@ export interface Department {
   manager_id?: string | number | null;
 }
 
+/**
+ * Department with its sub-departments, as returned by getDepartmentTree()
+ */
+export type DepartmentNode = Department & { children: DepartmentNode[] };
+
 export interface Position {
   id: string | number;
   department_id: string | number;
@@ -133,12 +304,64 @@ export interface Position {
   reports_to_position_id?: string | number | null;
 }
 
+/**
+ * One position of the org chart, as returned by getOrgChart()
+ */
+export interface OrgChartNode {
+  position: Position;
+  /** Users holding the position; empty when it is vacant */
+  users: User[];
+  /** Positions reporting to this one */
+  reports: OrgChartNode[];
+}
+
+/**
+ * Navigation URLs of a paginated listing (null when there is no such page)
+ */
+export interface PaginationLinks {
+  first: string | null;
+  last: string | null;
+  prev: string | null;
+  next: string | null;
+}
+
+/**
+ * Laravel paginator page link, as rendered by pagination views
+ */
+export interface PaginationPageLink {
+  url: string | null;
+  label: string;
+  active: boolean;
+}
+
+/**
+ * Position of a page within a paginated listing
+ */
+export interface PaginationMeta {
+  current_page: number;
+  /** 1-based index of the first item on the page (null when the page is empty) */
+  from: number | null;
+  /** 1-based index of the last item on the page (null when the page is empty) */
+  to: number | null;
+  per_page: number;
+  total: number;
+  last_page: number;
+  path: string | null;
+  links: PaginationPageLink[];
+}
+
+/**
+ * One page of a listing. Plain Laravel paginators and paginated `JsonResource` collections
+ * are both normalized to this shape
+ */
 export interface PaginatedResponse<T> {
   data: T[];
   current_page: number;
   per_page: number;
   total: number;
   last_page: number;
+  links: PaginationLinks;
+  meta: PaginationMeta;
 }
 
 export interface QueryParams {
@@ -148,6 +371,79 @@ export interface QueryParams {
   [key: string]: any;
 }
 
+/**
+ * Sort key: a field name, prefixed with '-' for descending order
+ */
+export type SortKey<Field extends string> = Field | `-${Field}`;
+
+/**
+ * Typed listing query, sent using the Laravel query-string conventions:
+ * `filter[status]=active`, `sort=-date_employed,name`, `include=roles,department`
+ */
+export interface ResourceQuery<Filters, SortField extends string, Include extends string> {
+  page?: number;
+  per_page?: number;
+  search?: string;
+  /** Exact-match filters; arrays match any of the values */
+  filter?: Filters;
+  sort?: SortKey<SortField> | SortKey<SortField>[];
+  /** Relationships to eager-load */
+  include?: Include[];
+  /** Extra query parameters sent as-is */
+  params?: Record<string, string | number | boolean>;
+}
+
+type FilterValue<T> = T | T[];
+
+export interface UserFilters {
+  status?: FilterValue<string>;
+  department_id?: FilterValue<string | number>;
+  company?: FilterValue<string>;
+  site_location?: FilterValue<string>;
+  employee_id?: FilterValue<string>;
+}
+
+export type UserSortField = 'name' | 'email' | 'employee_id' | 'status' | 'company' | 'site_location' | 'date_employed' | 'created_at';
+export type UserInclude = 'roles' | 'department' | 'positions';
+export type UserQuery = ResourceQuery<UserFilters, UserSortField, UserInclude>;
+
+export interface DepartmentFilters {
+  name?: FilterValue<string>;
+  parent_department_id?: FilterValue<string | number>;
+  manager_id?: FilterValue<string | number>;
+}
+
+export type DepartmentSortField = 'name' | 'created_at';
+export type DepartmentInclude = 'parent' | 'children' | 'manager';
+export type DepartmentQuery = ResourceQuery<DepartmentFilters, DepartmentSortField, DepartmentInclude>;
+
+export interface PositionFilters {
+  department_id?: FilterValue<string | number>;
+  level?: FilterValue<string>;
+  reports_to_position_id?: FilterValue<string | number>;
+}
+
+export type PositionSortField = 'title' | 'level' | 'created_at';
+export type PositionInclude = 'department';
+export type PositionQuery = ResourceQuery<PositionFilters, PositionSortField, PositionInclude>;
+
+export interface RoleFilters {
+  name?: FilterValue<string>;
+  permission?: FilterValue<string>;
+}
+
+export type RoleSortField = 'name' | 'created_at';
+export type RoleInclude = 'permissions' | 'users_count';
+export type RoleQuery = ResourceQuery<RoleFilters, RoleSortField, RoleInclude>;
+
+export interface PermissionFilters {
+  name?: FilterValue<string>;
+  role?: FilterValue<string>;
+}
+
+export type PermissionSortField = 'name' | 'created_at';
+export type PermissionQuery = ResourceQuery<PermissionFilters, PermissionSortField, 'roles'>;
+
 export interface TokenVerificationResponse {
   user: User;
   permissions: string[];
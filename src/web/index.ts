@@ -0,0 +1,166 @@
+import { IAMClient } from '../IAMClient';
+import {
+  AuthFailure,
+  AuthRequirements,
+  ErrorFormatter,
+  IAMRequestContext,
+  TokenSource,
+  authenticateRequest,
+  checkRequirements,
+  defaultErrorFormatter,
+  parseCookies,
+  passesOptionalAuth,
+} from '../server';
+
+export type { AuthFailure, AuthRequirements, ErrorFormatter, IAMRequestContext, TokenSource } from '../server';
+
+/**
+ * Verified identity of a web request. `token` holds the bearer token, or the
+ * session cookie value when `source` is `'session'`
+ */
+export interface IAMWebContext extends IAMRequestContext {
+  source: 'token' | 'session';
+}
+
+export interface IAMWebOptions {
+  client: IAMClient;
+  /** Where to read the token from, in order (default: ['header']) */
+  tokenSources?: TokenSource[];
+  /** Session cookie that triggers verifySession() when no token is found; all cookies are forwarded (default: the client's `session.cookieName`, false to disable) */
+  sessionCookie?: string | false;
+  /** Build the JSON body for 401/403/429/503 responses */
+  formatError?: ErrorFormatter;
+}
+
+export interface WithIAMOptions extends AuthRequirements {
+  /** Call the handler with `iam = null` instead of responding 401 when no valid credentials are present */
+  optional?: boolean;
+}
+
+/**
+ * Query string of a request. Relative URLs (e.g. from some proxies and test harnesses) resolve against a
+ * placeholder origin, and unparsable ones have no query, so they end in a 401 rather than a thrown error
+ */
+const searchParams = (request: Request): URLSearchParams => {
+  try {
+    return new URL(request.url, 'http://localhost').searchParams;
+  } catch {
+    return new URLSearchParams();
+  }
+};
+
+export type IAMWebAuthResult = { iam: IAMWebContext | null; failure?: undefined } | { iam?: undefined; failure: AuthFailure };
+
+/**
+ * Handler wrapped by `withIAM()`. Extra arguments (e.g. the Next.js route context) are passed through
+ */
+export type IAMWebHandler<R extends Request, Args extends unknown[], Context> = (
+  request: R,
+  iam: Context,
+  ...args: Args
+) => Response | Promise<Response>;
+
+/**
+ * Create helpers that authenticate standard `Request` objects and answer with standard `Response` objects.
+ * Works anywhere the Fetch API is available: Next.js route handlers and middleware, Hono, Remix, edge runtimes
+ * @example
+ * ```typescript
+ * const { withIAM, requireIAM } = createIAMWeb({ client: iamClient });
+ *
+ * // Next.js App Router
+ * export const GET = withIAM(async (request, iam) => Response.json(iam.user), { permissions: 'users.view' });
+ *
+ * // Remix loader: throws a 401/403 Response on failure
+ * export const loader = async ({ request }: LoaderFunctionArgs) => {
+ *   const iam = await requireIAM(request, { roles: 'admin' });
+ *   return json(iam.user);
+ * };
+ *
+ * // Hono
+ * app.get('/api/me', (c) => GET(c.req.raw));
+ * ```
+ */
+export const createIAMWeb = (options: IAMWebOptions) => {
+  const { client, tokenSources = ['header'], sessionCookie = client.getSessionCookieName(), formatError = defaultErrorFormatter } = options;
+
+  const toResponse = (failure: AuthFailure): Response =>
+    new Response(JSON.stringify(formatError(failure)), {
+      status: failure.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  /**
+   * Verify the request's bearer token, or its session cookie
+   * @returns The identity, or the failure to respond with
+   */
+  const resolve = async (request: Request): Promise<IAMWebContext | AuthFailure> => {
+    const cookies = parseCookies(request.headers.get('cookie'));
+    const result = await authenticateRequest(
+      client,
+      {
+        header: (name) => request.headers.get(name),
+        cookie: (name) => cookies[name],
+        cookies: () => cookies,
+        query: (name) => searchParams(request).get(name),
+      },
+      { tokenSources, sessionCookie }
+    );
+    return result.failure ?? { ...result.context, source: result.source };
+  };
+
+  /**
+   * Authenticate the request and check the requirements
+   * @returns The identity, null for optional auth without credentials, or the failure
+   */
+  const authenticate = async (request: Request, requirements: WithIAMOptions = {}): Promise<IAMWebAuthResult> => {
+    const result = await resolve(request);
+    if (!('user' in result)) {
+      return passesOptionalAuth(result, requirements.optional) ? { iam: null } : { failure: result };
+    }
+
+    const forbidden = checkRequirements(result, requirements);
+    return forbidden ? { failure: forbidden } : { iam: result };
+  };
+
+  /**
+   * Wrap a handler so it only runs for authenticated requests that meet the requirements
+   */
+  function withIAM<R extends Request, Args extends unknown[]>(
+    handler: IAMWebHandler<R, Args, IAMWebContext>,
+    requirements?: WithIAMOptions & { optional?: false }
+  ): (request: R, ...args: Args) => Promise<Response>;
+  function withIAM<R extends Request, Args extends unknown[]>(
+    handler: IAMWebHandler<R, Args, IAMWebContext | null>,
+    requirements: WithIAMOptions & { optional: true }
+  ): (request: R, ...args: Args) => Promise<Response>;
+  function withIAM<R extends Request, Args extends unknown[]>(
+    handler: IAMWebHandler<R, Args, any>,
+    requirements: WithIAMOptions = {}
+  ): (request: R, ...args: Args) => Promise<Response> {
+    return async (request: R, ...args: Args) => {
+      const { iam, failure } = await authenticate(request, requirements);
+      return failure ? toResponse(failure) : handler(request, iam, ...args);
+    };
+  }
+
+  return {
+    authenticate,
+    withIAM,
+
+    /**
+     * Return the identity, or throw the 401/403/429/503 `Response` (Remix loaders and actions render thrown responses)
+     */
+    requireIAM: async (request: Request, requirements: AuthRequirements = {}): Promise<IAMWebContext> => {
+      const { iam, failure } = await authenticate(request, requirements);
+      if (failure) {
+        throw toResponse(failure);
+      }
+      return iam!;
+    },
+
+    /** Build the `Response` for a failure, e.g. from `authenticate()` */
+    toResponse,
+  };
+};
+
+export type IAMWeb = ReturnType<typeof createIAMWeb>;